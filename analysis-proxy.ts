@@ -0,0 +1,318 @@
+import { spawn } from "node:child_process";
+import { mkdir, rm } from "node:fs/promises";
+import { basename, dirname, extname, join } from "node:path";
+import type { AnalysisResult, Highlight } from "./analyzer";
+import { measureLoudness } from "./audio-detector";
+import { secondsToTime, timeToSeconds } from "./highlights";
+import { probeDuration, runFfmpeg } from "./media";
+
+export interface ProxyOptions {
+  // Analyse a small copy of the clip instead of the recording itself
+  enabled?: boolean;
+  height?: number;
+  fps?: number;
+  crf?: number;
+  // Leave long idle stretches (buy phase, menus, spectating) out of the copy
+  trimIdle?: boolean;
+  // Idle means the picture barely changes (mean frame difference below
+  // motionThreshold, 0..1) and it's quiet (voice band below silenceDb)...
+  motionThreshold?: number;
+  silenceDb?: number;
+  // ...for at least this long
+  minIdleSeconds?: number;
+  // Kept on both sides of a cut, so the model sees what leads up to it
+  paddingSeconds?: number;
+}
+
+// A stretch of the source clip, and where it starts in the proxy
+export interface ProxySegment {
+  start: number;
+  end: number;
+  offset: number;
+}
+
+export interface AnalysisProxy {
+  path: string;
+  segments: ProxySegment[];
+}
+
+const DEFAULTS = {
+  height: 360,
+  fps: 5,
+  crf: 32,
+  motionThreshold: 0.01,
+  silenceDb: -40,
+  minIdleSeconds: 20,
+  paddingSeconds: 2,
+};
+
+// Motion is sampled this often, on tiny grayscale frames
+const MOTION_FPS = 2;
+const MOTION_WIDTH = 64;
+const MOTION_HEIGHT = 36;
+const MOTION_FRAME_BYTES = MOTION_WIDTH * MOTION_HEIGHT;
+
+// measureLoudness windows (0.25s) per second
+const LOUDNESS_WINDOWS_PER_SECOND = 4;
+
+// Mean absolute difference (0..1) between consecutive sampled frames
+export async function measureMotion(filePath: string): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", [
+      "-v",
+      "error",
+      "-i",
+      filePath,
+      "-an",
+      "-vf",
+      `fps=${MOTION_FPS},scale=${MOTION_WIDTH}:${MOTION_HEIGHT},format=gray`,
+      "-f",
+      "rawvideo",
+      "pipe:1",
+    ]);
+
+    const motion: number[] = [];
+    let previous: Buffer | undefined;
+    let pending = Buffer.alloc(0);
+    ffmpeg.stdout.on("data", (chunk: Buffer) => {
+      pending = Buffer.concat([pending, chunk]);
+      while (pending.length >= MOTION_FRAME_BYTES) {
+        const frame = pending.subarray(0, MOTION_FRAME_BYTES);
+        if (previous) {
+          let diff = 0;
+          for (let i = 0; i < frame.length; i++) {
+            diff += Math.abs((frame[i] ?? 0) - (previous[i] ?? 0));
+          }
+          motion.push(diff / (frame.length * 255));
+        } else {
+          motion.push(0); // Nothing to compare the first frame with
+        }
+        previous = Buffer.from(frame);
+        pending = pending.subarray(MOTION_FRAME_BYTES);
+      }
+    });
+
+    let stderr = "";
+    ffmpeg.stderr.on("data", (d) => (stderr += d.toString()));
+
+    ffmpeg.on("close", (code) => {
+      if (code === 0) {
+        resolve(motion);
+      } else {
+        console.error("FFmpeg Error:", stderr);
+        reject(new Error(`ffmpeg exited with code ${code}`));
+      }
+    });
+
+    ffmpeg.on("error", (err) => {
+      reject(err);
+    });
+  });
+}
+
+// Parts of the clip worth sending: everything except idle stretches of at
+// least minIdleSeconds (minus the padding). Works on whole seconds; the
+// per-second motion and loudness are the loudest sample in that second.
+export function findActiveSegments(
+  duration: number,
+  motion: number[],
+  loudness: number[],
+  options: ProxyOptions = {},
+): ProxySegment[] {
+  const o = { ...DEFAULTS, ...options };
+  const max = (values: number[]) => Math.max(-Infinity, ...values);
+
+  const idle: boolean[] = [];
+  for (let second = 0; second < Math.ceil(duration); second++) {
+    const moving = max(
+      motion.slice(second * MOTION_FPS, (second + 1) * MOTION_FPS),
+    );
+    const level = max(
+      loudness.slice(
+        second * LOUDNESS_WINDOWS_PER_SECOND,
+        (second + 1) * LOUDNESS_WINDOWS_PER_SECOND,
+      ),
+    );
+    // No samples (short clip end, no audio track) doesn't count as activity
+    idle.push(moving < o.motionThreshold && level < o.silenceDb);
+  }
+
+  const cuts: [number, number][] = [];
+  let runStart = -1;
+  const closeRun = (end: number) => {
+    const start = runStart === 0 ? 0 : runStart + o.paddingSeconds;
+    const stop = end >= idle.length ? duration : end - o.paddingSeconds;
+    if (end - runStart >= o.minIdleSeconds && stop > start) {
+      cuts.push([start, Math.min(stop, duration)]);
+    }
+    runStart = -1;
+  };
+  idle.forEach((isIdle, second) => {
+    if (isIdle && runStart < 0) runStart = second;
+    if (!isIdle && runStart >= 0) closeRun(second);
+  });
+  if (runStart >= 0) closeRun(idle.length);
+
+  const segments: ProxySegment[] = [];
+  let start = 0;
+  let offset = 0;
+  const ends: [number, number][] = [...cuts, [duration, duration]];
+  for (const [cutStart, cutEnd] of ends) {
+    if (cutStart > start) {
+      segments.push({ start, end: cutStart, offset });
+      offset += cutStart - start;
+    }
+    start = cutEnd;
+  }
+  return segments;
+}
+
+// Parts of the clip that go into the proxy: all of it, or the active
+// parts with `trimIdle`
+export async function proxySegments(
+  filePath: string,
+  options: ProxyOptions = {},
+): Promise<ProxySegment[]> {
+  const o = { ...DEFAULTS, ...options };
+  const duration = await probeDuration(filePath);
+  const whole = [{ start: 0, end: duration, offset: 0 }];
+  if (!o.trimIdle || o.enabled === false) return whole;
+
+  console.log(`🔍 [PROXY] Looking for idle stretches...`);
+  const [motion, loudness] = await Promise.all([
+    measureMotion(filePath),
+    measureLoudness(filePath),
+  ]);
+  const segments = findActiveSegments(duration, motion, loudness, o);
+  // All idle: send it anyway and let the model find nothing
+  if (segments.length === 0) return whole;
+
+  const trimmed = duration - proxyLength(segments);
+  if (trimmed > 0) {
+    console.log(
+      `✂️ [PROXY] ${Math.round(trimmed)}s of idle left out (${segments.length} parts kept)`,
+    );
+  }
+  return segments;
+}
+
+// Length of the proxy made of these segments
+export function proxyLength(segments: ProxySegment[]): number {
+  return segments.reduce((sum, seg) => sum + seg.end - seg.start, 0);
+}
+
+// The segments behind [start, end) of the proxy timeline, as the segments
+// of a proxy of just that stretch (analysis windows)
+export function windowSegments(
+  segments: ProxySegment[],
+  start: number,
+  end: number,
+): ProxySegment[] {
+  return segments.flatMap((seg) => {
+    const from = Math.max(start, seg.offset);
+    const to = Math.min(end, seg.offset + seg.end - seg.start);
+    if (to <= from) return [];
+    return [
+      {
+        start: seg.start + from - seg.offset,
+        end: seg.start + to - seg.offset,
+        offset: from - start,
+      },
+    ];
+  });
+}
+
+// Encodes the segments as a low-res, low-fps copy (H.264/AAC in MP4,
+// whatever the source container) next to the montages in processed/.
+// Delete it with removeProxy once the analysis is done.
+export async function createProxy(
+  filePath: string,
+  segments: ProxySegment[],
+  options: ProxyOptions = {},
+  suffix = "proxy",
+): Promise<AnalysisProxy> {
+  const o = { ...DEFAULTS, ...options };
+  const outputDir = join(dirname(filePath), "processed");
+  await mkdir(outputDir, { recursive: true });
+  const name = basename(filePath, extname(filePath));
+  const path = join(outputDir, `${name}_${suffix}.mp4`);
+
+  const video = `fps=${o.fps},scale=-2:${o.height}`;
+  const filter =
+    segments
+      .map(
+        (seg, i) =>
+          `[0:v]trim=start=${seg.start}:end=${seg.end},setpts=PTS-STARTPTS,${video}[v${i}];` +
+          `[0:a]atrim=start=${seg.start}:end=${seg.end},asetpts=PTS-STARTPTS[a${i}];`,
+      )
+      .join("") +
+    segments.map((_, i) => `[v${i}][a${i}]`).join("") +
+    `concat=n=${segments.length}:v=1:a=1[v][a]`;
+
+  const kept = proxyLength(segments);
+  await runFfmpeg(
+    [
+      "-y",
+      "-v",
+      "error",
+      "-i",
+      filePath,
+      "-filter_complex",
+      filter,
+      "-map",
+      "[v]",
+      "-map",
+      "[a]",
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-crf",
+      String(o.crf),
+      "-c:a",
+      "aac",
+      "-b:a",
+      "64k",
+      "-ac",
+      "1",
+      "-movflags",
+      "+faststart",
+      path,
+    ],
+    { duration: kept, outputPath: path },
+  );
+
+  console.log(
+    `🪶 [PROXY] ${basename(path)}: ${Math.round(kept)}s at ${o.height}p@${o.fps}fps`,
+  );
+  return { path, segments };
+}
+
+export async function removeProxy(proxy: AnalysisProxy) {
+  await rm(proxy.path, { force: true });
+}
+
+// Maps highlights found on the proxy back to the source clip. A highlight
+// spanning a cut becomes one highlight per part, so the idle stretch in
+// between stays out of the montage.
+export function toSourceTimeline(
+  analysis: AnalysisResult,
+  segments: ProxySegment[],
+): AnalysisResult {
+  const highlights = analysis.highlights.flatMap((h): Highlight[] => {
+    const start = timeToSeconds(h.start_time);
+    const end = timeToSeconds(h.end_time);
+    return segments
+      .filter(
+        (seg) => seg.offset < end && seg.offset + seg.end - seg.start > start,
+      )
+      .map((seg) => ({
+        ...h,
+        start_time: secondsToTime(seg.start + Math.max(start - seg.offset, 0)),
+        end_time: secondsToTime(
+          Math.min(seg.end, seg.start + end - seg.offset),
+        ),
+      }));
+  });
+  return { ...analysis, highlights };
+}
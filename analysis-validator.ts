@@ -0,0 +1,204 @@
+import {
+  HIGHLIGHT_CATEGORIES,
+  type AnalysisResult,
+  type Analyzer,
+  type Highlight,
+  type HighlightCategory,
+  type UsageListener,
+} from "./analyzer";
+import { mergeOverlapping, secondsToTime, timeToSeconds } from "./highlights";
+import { probeDuration } from "./media";
+
+// How far past the end of the clip a highlight may go before it counts as
+// an error instead of being clamped to the clip duration.
+const END_TOLERANCE_SECONDS = 1;
+
+export class AnalysisValidationError extends Error {
+  constructor(
+    public errors: string[],
+    attempts: number,
+  ) {
+    super(
+      `Analysis output invalid after ${attempts} attempt(s): ${errors.join("; ")}`,
+    );
+    this.name = "AnalysisValidationError";
+  }
+}
+
+// Scores are 0..1. Models sometimes answer on a 10 or 100 scale anyway.
+function normaliseScore(value: unknown): number | undefined {
+  if (typeof value !== "number" && typeof value !== "string") return undefined;
+  let score = Number(value);
+  if (value === "" || !Number.isFinite(score) || score < 0) return undefined;
+  if (score > 10) score /= 100;
+  else if (score > 1) score /= 10;
+  return Number(Math.min(1, score).toFixed(3));
+}
+
+// "Multi-Kill" → "multikill"; anything unknown is "other"
+function normaliseCategory(value: unknown): HighlightCategory | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const category = value.toLowerCase().replace(/[^a-z]/g, "");
+  return HIGHLIGHT_CATEGORIES.find((c) => c === category) ?? "other";
+}
+
+function normaliseKills(value: unknown): number | undefined {
+  const kills = Number(value);
+  return typeof value === "number" && Number.isInteger(kills) && kills >= 0
+    ? kills
+    : undefined;
+}
+
+// Seconds of a highlight's timestamp field, or NaN (with an error pushed)
+// when it is missing or not a HH:MM:SS timestamp
+function parseTimestamp(
+  h: Record<string, unknown>,
+  field: "start_time" | "end_time",
+  where: string,
+  errors: string[],
+): number {
+  const value = h[field];
+  if (typeof value !== "string" && typeof value !== "number") {
+    errors.push(`${where}.${field} is missing`);
+    return NaN;
+  }
+  const seconds = timeToSeconds(value);
+  if (Number.isNaN(seconds)) {
+    errors.push(
+      `${where}.${field} ${JSON.stringify(value)} is not a HH:MM:SS timestamp`,
+    );
+  }
+  return seconds;
+}
+
+export interface ValidationOutcome {
+  result?: AnalysisResult;
+  errors: string[];
+}
+
+// Checks the raw model output against the real clip duration. On success
+// `result` holds a normalised copy (HH:MM:SS timestamps, clamped ends,
+// scores in 0..1, known categories, overlapping ranges merged). Score,
+// category and kills are optional: when unusable they are left out.
+export function validateAnalysis(
+  raw: unknown,
+  clipDuration: number,
+): ValidationOutcome {
+  const errors: string[] = [];
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { errors: ["response must be a JSON object"] };
+  }
+  const data = raw as Record<string, unknown>;
+
+  if (typeof data.title !== "string" || data.title.trim() === "") {
+    errors.push("'title' must be a non-empty string");
+  }
+  if (!Array.isArray(data.highlights)) {
+    errors.push("'highlights' must be an array");
+    return { errors };
+  }
+
+  const highlights: Highlight[] = [];
+  data.highlights.forEach((item: unknown, i: number) => {
+    const where = `highlights[${i}]`;
+    if (typeof item !== "object" || item === null) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    const h = item as Record<string, unknown>;
+
+    if (typeof h.description !== "string" || h.description.trim() === "") {
+      errors.push(`${where}.description is missing`);
+    }
+
+    const start = parseTimestamp(h, "start_time", where, errors);
+    let end = parseTimestamp(h, "end_time", where, errors);
+    if (Number.isNaN(start) || Number.isNaN(end)) return;
+
+    if (end <= start) {
+      errors.push(
+        `${where}: end_time ${secondsToTime(end)} is not after start_time ${secondsToTime(start)}`,
+      );
+      return;
+    }
+    if (start >= clipDuration) {
+      errors.push(
+        `${where}: start_time ${secondsToTime(start)} is past the end of the clip (${secondsToTime(clipDuration)})`,
+      );
+      return;
+    }
+    if (end > clipDuration + END_TOLERANCE_SECONDS) {
+      errors.push(
+        `${where}: end_time ${secondsToTime(end)} is past the end of the clip (${secondsToTime(clipDuration)})`,
+      );
+      return;
+    }
+    end = Math.min(end, clipDuration);
+
+    highlights.push({
+      start_time: secondsToTime(start),
+      end_time: secondsToTime(end),
+      description: String(h.description ?? "").trim(),
+      score: normaliseScore(h.score),
+      category: normaliseCategory(h.category),
+      kills: normaliseKills(h.kills),
+    });
+  });
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    result: {
+      title: (data.title as string).trim(),
+      highlights: mergeOverlapping(highlights),
+    },
+    errors,
+  };
+}
+
+// Runs the analyzer and validates its output, re-prompting with the list of
+// problems up to `maxAttempts` times in total. `onUsage` hears about every
+// attempt's model call.
+export async function analyzeWithValidation(
+  analyzer: Analyzer,
+  filePath: string,
+  maxAttempts = 3,
+  onUsage?: UsageListener,
+): Promise<AnalysisResult> {
+  const clipDuration = await probeDuration(filePath);
+  let corrections: string[] | undefined;
+
+  try {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let raw: unknown;
+      try {
+        raw = await analyzer.analyze(filePath, {
+          clipDuration,
+          corrections,
+          onUsage,
+        });
+      } catch (error) {
+        if (!(error instanceof SyntaxError)) throw error;
+        raw = undefined;
+        corrections = [`response was not valid JSON (${error.message})`];
+      }
+
+      if (raw !== undefined) {
+        const { result, errors } = validateAnalysis(raw, clipDuration);
+        if (result) return result;
+        corrections = errors;
+      }
+
+      console.log(
+        `⚠️ [VALIDATION] Attempt ${attempt}/${maxAttempts} rejected: ${corrections?.join("; ")}`,
+      );
+    }
+  } finally {
+    await analyzer.release?.(filePath);
+  }
+
+  throw new AnalysisValidationError(corrections ?? [], maxAttempts);
+}
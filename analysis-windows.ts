@@ -0,0 +1,107 @@
+import type { AnalysisResult, Highlight } from "./analyzer";
+import type { ProxySegment } from "./analysis-proxy";
+import { mergeOverlapping, timeToSeconds } from "./highlights";
+
+export interface WindowOptions {
+  // Longer recordings are analysed in windows of this length...
+  windowSeconds?: number;
+  // ...overlapping by this much, so a moment on a boundary is seen whole
+  overlapSeconds?: number;
+}
+
+// One analysed window, kept on the entry until the whole clip is done
+export interface WindowAnalysis {
+  segments: ProxySegment[]; // Parts of the clip the window covers
+  result: AnalysisResult; // Timestamps on the clip's timeline
+}
+
+const DEFAULTS = {
+  windowSeconds: 600,
+  overlapSeconds: 30,
+};
+
+// Windows over a timeline of `length` seconds; one when it fits
+export function splitWindows(
+  length: number,
+  options: WindowOptions = {},
+): { start: number; end: number }[] {
+  const { windowSeconds, overlapSeconds } = { ...DEFAULTS, ...options };
+  if (length <= windowSeconds) return [{ start: 0, end: length }];
+
+  const windows = [];
+  const step = windowSeconds - overlapSeconds;
+  for (let start = 0; ; start += step) {
+    const end = Math.min(start + windowSeconds, length);
+    windows.push({ start, end });
+    if (end >= length) return windows;
+  }
+}
+
+// How far a highlight is from the nearest edge of its window. Near an
+// edge the model may have seen only part of the moment.
+function edgeMargin(highlight: Highlight, window: WindowAnalysis): number {
+  const first = window.segments[0]?.start ?? 0;
+  const last = window.segments[window.segments.length - 1]?.end ?? 0;
+  return Math.min(
+    timeToSeconds(highlight.start_time) - first,
+    last - timeToSeconds(highlight.end_time),
+  );
+}
+
+// Joins the windows' highlights. Overlapping highlights from different
+// windows are the same moment seen twice: they become one, covering both,
+// described by the window that saw it further from its edge. The title is
+// the one of the window with the most highlights.
+export function mergeWindows(windows: WindowAnalysis[]): AnalysisResult {
+  const tagged = windows
+    .flatMap((window, index) =>
+      window.result.highlights.map((highlight) => ({
+        highlight,
+        index,
+        margin: edgeMargin(highlight, window),
+      })),
+    )
+    .sort(
+      (a, b) =>
+        timeToSeconds(a.highlight.start_time) -
+        timeToSeconds(b.highlight.start_time),
+    );
+
+  const kept: typeof tagged = [];
+  for (const item of tagged) {
+    const last = kept[kept.length - 1];
+    const overlaps =
+      last &&
+      last.index !== item.index &&
+      timeToSeconds(item.highlight.start_time) <
+        timeToSeconds(last.highlight.end_time);
+    if (!last || !overlaps) {
+      kept.push({ ...item });
+      continue;
+    }
+
+    const best = item.margin > last.margin ? item : last;
+    const end =
+      timeToSeconds(item.highlight.end_time) >
+      timeToSeconds(last.highlight.end_time)
+        ? item.highlight.end_time
+        : last.highlight.end_time;
+    kept[kept.length - 1] = {
+      highlight: {
+        ...best.highlight,
+        start_time: last.highlight.start_time,
+        end_time: end,
+      },
+      index: best.index,
+      margin: best.margin,
+    };
+  }
+
+  const busiest = [...windows].sort(
+    (a, b) => b.result.highlights.length - a.result.highlights.length,
+  )[0];
+  return {
+    title: busiest?.result.title ?? "",
+    highlights: mergeOverlapping(kept.map((item) => item.highlight)),
+  };
+}
@@ -0,0 +1,23 @@
+import type { Analyzer } from "./analyzer";
+import type { Config } from "./config";
+import { GeminiAnalyzer } from "./gemini";
+import { LocalAnalyzer } from "./local-analyzer";
+import { KillFeedAnalyzer } from "./killfeed-detector";
+
+export async function createAnalyzer(config: Config): Promise<Analyzer> {
+  const provider = config.analyzer?.provider ?? "gemini";
+
+  switch (provider) {
+    case "gemini":
+      return new GeminiAnalyzer(config.geminiApiKey, config.analyzer?.gemini);
+    case "local":
+      if (!config.analyzer?.local) {
+        throw new Error("'analyzer.local' section is missing in config.json");
+      }
+      return new LocalAnalyzer(config.analyzer.local);
+    case "killfeed":
+      return new KillFeedAnalyzer(config.killFeed);
+    default:
+      throw new Error(`Unknown analyzer provider: ${provider}`);
+  }
+}
@@ -0,0 +1,211 @@
+export const HIGHLIGHT_CATEGORIES = [
+  "ace",
+  "clutch",
+  "multikill",
+  "kill",
+  "reaction",
+  "other",
+] as const;
+
+export type HighlightCategory = (typeof HIGHLIGHT_CATEGORIES)[number];
+
+export interface Highlight {
+  start_time: string;
+  end_time: string;
+  description: string;
+  // 0..1, higher is better. Rated by the model, then adjusted by the
+  // post-processing passes (audio, ...)
+  score?: number;
+  category?: HighlightCategory;
+  kills?: number; // Kills by the player in the highlight
+  // Clip the highlight comes from, when it differs from the montage input
+  // (compilations)
+  source?: string;
+}
+
+export interface AnalysisResult {
+  title: string;
+  highlights: Highlight[];
+}
+
+// YouTube description and tags for a montage
+export interface VideoMetadata {
+  description: string;
+  tags: string[];
+}
+
+// What one model call was billed for (backends that report it: Gemini)
+export interface AnalyzerUsage {
+  call: "analysis" | "title" | "metadata";
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  videoSeconds?: number; // Length of the video sent with the prompt
+  costUsd: number;
+  at: string;
+}
+
+export type UsageListener = (usage: AnalyzerUsage) => void;
+
+export interface AnalyzeOptions {
+  // Real clip length, so the model knows the valid timestamp range
+  clipDuration?: number;
+  // Problems found in the previous answer, sent back for self-repair
+  corrections?: string[];
+  onUsage?: UsageListener;
+}
+
+// Every analysis backend (Gemini, local model server, ...) implements this.
+// The pipeline only ever talks to an Analyzer, never to a provider SDK.
+export interface Analyzer {
+  readonly name: string;
+  analyze(filePath: string, options?: AnalyzeOptions): Promise<AnalysisResult>;
+  // Frees anything kept around between repair attempts (e.g. uploads)
+  release?(filePath: string): Promise<void>;
+  // One title for a set of clips (compilations), from their titles and
+  // highlight descriptions
+  generateTitle?(
+    titles: string[],
+    descriptions: string[],
+    onUsage?: UsageListener,
+  ): Promise<string>;
+  // Description and tags for the upload, from the final highlights
+  generateMetadata?(
+    analysis: AnalysisResult,
+    onUsage?: UsageListener,
+  ): Promise<VideoMetadata>;
+}
+
+export const ANALYSIS_PROMPT = `
+  Analyze this video clip of Valorant gameplay.
+  Identify highlight moments based on:
+  1. Player kills: Look for the kill feed/icon feedback at the bottom middle of the screen.
+  2. Audio excitement: Screams, laughs, and loud reactions.
+
+  Return a JSON object with:
+  - 'title': A YouTube title for the clip based on the highlights. Avoid using emojis and names (ex: agents, maps and positions)
+  - 'highlights': A list of highlight objects. (If highlights are close (5 to 7s) try to put them together) Each highlight should have:
+    - 'start_time': The start timestamp in HH:MM:SS format (e.g., "00:00:12").
+    - 'end_time': The end timestamp in HH:MM:SS format (e.g., "00:00:15").
+    - 'description': A brief description of the highlight (e.g., "Triple Kill", "Funny Reaction").
+    - 'category': One of "ace", "clutch", "multikill", "kill", "reaction" or "other".
+    - 'kills': How many kills the player gets in the highlight (0 for none).
+    - 'score': How good the moment is for a montage, from 0 (filler) to 1 (best of the clip).
+
+  Return ONLY the JSON object, strictly valid JSON. Do not use Markdown code blocks.
+  `;
+
+// JSON Schema of the expected answer, for backends with structured output
+export const ANALYSIS_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    highlights: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          start_time: { type: "string" },
+          end_time: { type: "string" },
+          description: { type: "string" },
+          category: { type: "string", enum: HIGHLIGHT_CATEGORIES },
+          kills: { type: "integer" },
+          score: { type: "number" },
+        },
+        required: [
+          "start_time",
+          "end_time",
+          "description",
+          "category",
+          "kills",
+          "score",
+        ],
+      },
+    },
+  },
+  required: ["title", "highlights"],
+};
+
+export const METADATA_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    description: { type: "string" },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["description", "tags"],
+};
+
+export function buildAnalysisPrompt(options: AnalyzeOptions = {}): string {
+  let prompt = ANALYSIS_PROMPT;
+
+  if (options.clipDuration !== undefined) {
+    prompt += `\n  The clip is ${options.clipDuration.toFixed(1)} seconds long; every timestamp must be inside it.\n`;
+  }
+
+  if (options.corrections && options.corrections.length > 0) {
+    prompt += `
+  Your previous answer was rejected for these reasons:
+${options.corrections.map((c) => `  - ${c}`).join("\n")}
+  Fix them and return the complete JSON object again.
+  `;
+  }
+
+  return prompt;
+}
+
+export function buildTitlePrompt(
+  titles: string[],
+  descriptions: string[],
+): string {
+  return `
+  These are the titles of several Valorant clips from one gaming session:
+${titles.map((t) => `  - ${t}`).join("\n")}
+  Their highlights: ${descriptions.join(", ")}.
+
+  Write ONE YouTube title for a compilation of all of them. Avoid using emojis and names (ex: agents, maps and positions).
+  Return only the title text, without quotes.
+  `;
+}
+
+export function buildMetadataPrompt(analysis: AnalysisResult): string {
+  return `
+  Write the YouTube description and tags for a Valorant highlights montage titled "${analysis.title}".
+  Its highlights, in order: ${analysis.highlights.map((h) => h.description).join(", ")}.
+
+  Return a JSON object with:
+  - 'description': 2 or 3 short sentences hyping the montage. No timestamps, no links, no emojis.
+  - 'tags': 5 to 15 search tags (e.g. "valorant ace", "valorant clutch"), without '#'.
+
+  Return ONLY the JSON object, strictly valid JSON. Do not use Markdown code blocks.
+  `;
+}
+
+// Strips markdown code fences models sometimes wrap JSON in
+function parseJson(responseText: string): unknown {
+  try {
+    // Attempt to clean markdown if present
+    const jsonString = responseText
+      .replace(/```json/g, "")
+      .replace(/```/g, "")
+      .trim();
+    return JSON.parse(jsonString);
+  } catch (error) {
+    console.error("Failed to parse JSON response:", error);
+    throw error;
+  }
+}
+
+export function parseAnalysisResponse(responseText: string): AnalysisResult {
+  return parseJson(responseText) as AnalysisResult;
+}
+
+export function parseMetadataResponse(responseText: string): VideoMetadata {
+  const data = parseJson(responseText) as Partial<VideoMetadata>;
+  if (typeof data.description !== "string" || !Array.isArray(data.tags)) {
+    throw new Error("Metadata response needs 'description' and 'tags'");
+  }
+  return {
+    description: data.description.trim(),
+    tags: data.tags.filter((t): t is string => typeof t === "string"),
+  };
+}
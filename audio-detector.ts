@@ -0,0 +1,217 @@
+import { spawn } from "node:child_process";
+import type { AnalysisResult, Highlight } from "./analyzer";
+import { mergeOverlapping, secondsToTime, timeToSeconds } from "./highlights";
+
+export interface AudioReactionOptions {
+  enabled?: boolean;
+  // Loudness over the clip's median (dB) that counts as a spike
+  spikeDb?: number;
+  // Loudness over the median (dB) that counts as sustained voice energy...
+  sustainDb?: number;
+  // ...when it lasts at least this long
+  minSustainSeconds?: number;
+  // Candidates the model missed are added when they score at least this
+  minCandidateScore?: number;
+  // Highlights scoring below this after merging are dropped (0 keeps all)
+  minScore?: number;
+  preRollSeconds?: number;
+  postRollSeconds?: number;
+}
+
+export interface AudioCandidate {
+  start: number;
+  end: number;
+  score: number; // 0..1
+}
+
+const DEFAULTS = {
+  spikeDb: 12,
+  sustainDb: 6,
+  minSustainSeconds: 1.5,
+  minCandidateScore: 0.6,
+  minScore: 0,
+  preRollSeconds: 2,
+  postRollSeconds: 1,
+};
+
+const SAMPLE_RATE = 8000;
+const WINDOW_SECONDS = 0.25;
+const WINDOW_SAMPLES = SAMPLE_RATE * WINDOW_SECONDS;
+
+// Model highlights about reactions; these need audio evidence to keep rank
+const REACTION_PATTERN = /react|scream|laugh|funny|hype|rage|shout|yell/i;
+
+// Score given to model highlights before audio evidence is applied
+const MODEL_BASE_SCORE = 0.5;
+// Multiplier for reaction highlights with no audio evidence at all
+const UNSUPPORTED_REACTION_PENALTY = 0.3;
+
+// Decodes the voice band (300-3400 Hz) as mono PCM and returns the RMS
+// loudness in dBFS of every 0.25s window.
+export async function measureLoudness(filePath: string): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", [
+      "-v",
+      "error",
+      "-i",
+      filePath,
+      "-vn",
+      "-af",
+      "highpass=f=300,lowpass=f=3400",
+      "-ac",
+      "1",
+      "-ar",
+      String(SAMPLE_RATE),
+      "-f",
+      "s16le",
+      "pipe:1",
+    ]);
+
+    const levels: number[] = [];
+    let pending = Buffer.alloc(0);
+    const windowBytes = WINDOW_SAMPLES * 2;
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => {
+      pending = Buffer.concat([pending, chunk]);
+      while (pending.length >= windowBytes) {
+        let sumSq = 0;
+        for (let i = 0; i < windowBytes; i += 2) {
+          const sample = pending.readInt16LE(i) / 32768;
+          sumSq += sample * sample;
+        }
+        const rms = Math.sqrt(sumSq / WINDOW_SAMPLES);
+        levels.push(20 * Math.log10(Math.max(rms, 1e-6)));
+        pending = pending.subarray(windowBytes);
+      }
+    });
+
+    let stderr = "";
+    ffmpeg.stderr.on("data", (d) => (stderr += d.toString()));
+
+    ffmpeg.on("close", (code) => {
+      if (code === 0) {
+        resolve(levels);
+      } else {
+        console.error("FFmpeg Error:", stderr);
+        reject(new Error(`ffmpeg exited with code ${code}`));
+      }
+    });
+
+    ffmpeg.on("error", (err) => {
+      reject(err);
+    });
+  });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+// Finds loudness spikes and sustained voice energy in per-window levels.
+export function findReactionWindows(
+  levels: number[],
+  options: AudioReactionOptions = {},
+): AudioCandidate[] {
+  const spikeDb = options.spikeDb ?? DEFAULTS.spikeDb;
+  const sustainDb = options.sustainDb ?? DEFAULTS.sustainDb;
+  const minSustain = options.minSustainSeconds ?? DEFAULTS.minSustainSeconds;
+  const preRoll = options.preRollSeconds ?? DEFAULTS.preRollSeconds;
+  const postRoll = options.postRollSeconds ?? DEFAULTS.postRollSeconds;
+
+  const baseline = median(levels);
+  const candidates: AudioCandidate[] = [];
+
+  let runStart = -1;
+  let runPeak = 0;
+  const closeRun = (endIndex: number) => {
+    const start = runStart * WINDOW_SECONDS;
+    const end = endIndex * WINDOW_SECONDS;
+    const isSpike = runPeak >= spikeDb;
+    const isSustained = end - start >= minSustain;
+
+    if (isSpike || isSustained) {
+      // Louder peaks and longer runs both raise the score
+      const loudness = Math.min(1, runPeak / (spikeDb * 1.5));
+      const length = Math.min(1, (end - start) / (minSustain * 3));
+      candidates.push({
+        start: Math.max(0, start - preRoll),
+        end: end + postRoll,
+        score: Number((0.7 * loudness + 0.3 * length).toFixed(3)),
+      });
+    }
+    runStart = -1;
+    runPeak = 0;
+  };
+
+  levels.forEach((level, i) => {
+    const overBaseline = level - baseline;
+    if (overBaseline >= sustainDb) {
+      if (runStart < 0) runStart = i;
+      runPeak = Math.max(runPeak, overBaseline);
+    } else if (runStart >= 0) {
+      closeRun(i);
+    }
+  });
+  if (runStart >= 0) closeRun(levels.length);
+
+  return candidates;
+}
+
+export async function detectReactions(
+  filePath: string,
+  options: AudioReactionOptions = {},
+): Promise<AudioCandidate[]> {
+  const levels = await measureLoudness(filePath);
+  return findReactionWindows(levels, options);
+}
+
+// Scores model highlights by audio evidence, down-ranks reaction highlights
+// with no evidence (likely hallucinated) and adds strong reactions the model
+// missed.
+export function mergeAudioCandidates(
+  analysis: AnalysisResult,
+  candidates: AudioCandidate[],
+  options: AudioReactionOptions = {},
+): AnalysisResult {
+  const minCandidateScore =
+    options.minCandidateScore ?? DEFAULTS.minCandidateScore;
+  const minScore = options.minScore ?? DEFAULTS.minScore;
+  const used = new Set<AudioCandidate>();
+
+  const scored = analysis.highlights.map((h): Highlight => {
+    const start = timeToSeconds(h.start_time);
+    const end = timeToSeconds(h.end_time);
+    const overlapping = candidates.filter(
+      (c) => c.start <= end && c.end >= start,
+    );
+    overlapping.forEach((c) => used.add(c));
+
+    const support = Math.max(0, ...overlapping.map((c) => c.score));
+    let score = (h.score ?? MODEL_BASE_SCORE) * (1 + support);
+    if (support === 0 && REACTION_PATTERN.test(h.description)) {
+      score *= UNSUPPORTED_REACTION_PENALTY;
+    }
+    return { ...h, score: Number(Math.min(1, score).toFixed(3)) };
+  });
+
+  const missed = candidates
+    .filter((c) => !used.has(c) && c.score >= minCandidateScore)
+    .map((c): Highlight => ({
+      start_time: secondsToTime(c.start),
+      end_time: secondsToTime(c.end),
+      description: "Reaction",
+      score: c.score,
+      category: "reaction",
+    }));
+
+  const highlights = mergeOverlapping([...scored, ...missed]).filter(
+    (h) => (h.score ?? 1) >= minScore,
+  );
+
+  console.log(
+    `🔊 [AUDIO] ${used.size} reactions matched model highlights, ${missed.length} added, ${scored.length + missed.length - highlights.length} dropped.`,
+  );
+
+  return { ...analysis, highlights };
+}
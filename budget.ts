@@ -0,0 +1,68 @@
+import type { LockManager, UsageTotals } from "./lock-manager";
+
+// Spending caps in USD for billed analyzer calls (Gemini)
+export interface BudgetConfig {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+export interface BudgetPeriod extends UsageTotals {
+  name: "daily" | "monthly";
+  limitUsd?: number;
+  since: Date;
+  until: Date; // When the period resets
+}
+
+// Analysis is paused, not failed: the clip waits until `resumeAt`
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public resumeAt: string,
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+// Spending in the current day and month (local time), monthly first
+export function budgetPeriods(
+  lock: LockManager,
+  budget: BudgetConfig = {},
+  now = new Date(),
+): BudgetPeriod[] {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const day = now.getDate();
+  const periods = [
+    {
+      name: "monthly" as const,
+      limitUsd: budget.monthlyUsd,
+      since: new Date(year, month, 1),
+      until: new Date(year, month + 1, 1),
+    },
+    {
+      name: "daily" as const,
+      limitUsd: budget.dailyUsd,
+      since: new Date(year, month, day),
+      until: new Date(year, month, day + 1),
+    },
+  ];
+  return periods.map((period) => ({
+    ...period,
+    ...lock.usageSince(period.since.toISOString()),
+  }));
+}
+
+// Throws when a cap is reached. Checked before a clip is analysed, so the
+// calls of the clip that crosses the cap still go through.
+export function checkBudget(lock: LockManager, budget: BudgetConfig = {}) {
+  for (const period of budgetPeriods(lock, budget)) {
+    if (period.limitUsd === undefined || period.costUsd < period.limitUsd) {
+      continue;
+    }
+    throw new BudgetExceededError(
+      `${period.name} budget of $${period.limitUsd.toFixed(2)} reached ($${period.costUsd.toFixed(2)} spent)`,
+      period.until.toISOString(),
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import type { PipelineEvent } from "./events";
+import { describeEvent, NOTIFY_TIMEOUT_MS, type Notifier } from "./notifier";
+
+export interface ChatNotifierOptions {
+  format: "discord" | "slack";
+  url: string; // Incoming webhook URL
+  username?: string;
+}
+
+// Posts a one-line summary of each event to a Discord or Slack channel
+export class ChatNotifier implements Notifier {
+  readonly name: string;
+
+  constructor(private options: ChatNotifierOptions) {
+    this.name = options.format;
+  }
+
+  async notify(event: PipelineEvent): Promise<void> {
+    const text = describeEvent(event);
+    const payload =
+      this.options.format === "discord"
+        ? { content: text, username: this.options.username }
+        : { text, username: this.options.username };
+
+    const res = await fetch(this.options.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      throw new Error(`${this.options.format} webhook returned ${res.status}`);
+    }
+  }
+}
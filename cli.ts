@@ -0,0 +1,399 @@
+#!/usr/bin/env bun
+import { existsSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { createAnalyzer } from "./analyzer-factory";
+import { budgetPeriods } from "./budget";
+import { configFor, loadConfig, type Config } from "./config";
+import { contentHash, identifyClip } from "./clip-identity";
+import { scanClips, watchRoots } from "./clip-watcher";
+import type { EventBus } from "./events";
+import { LockManager, type VideoState } from "./lock-manager";
+import { createEventBus } from "./notifier-factory";
+import {
+  analyzeClip,
+  processVideo,
+  publishClip,
+  renderClip,
+  renderProfileFor,
+  resetStages,
+  sourcePathFor,
+  STAGES,
+  type PipelineContext,
+} from "./pipeline";
+import { destinationsFor } from "./publisher-factory";
+import type { Stage } from "./retry-policy";
+
+const USAGE = `Usage: clip <command> [options]
+
+Commands:
+  status [file] [--status=STATE]   Table of clips by state, or one clip's history
+  retry <file>                     Clear retry bookkeeping and run the pipeline now
+  reset <file> --from=STAGE        Forget results from analysis|render|upload onwards
+  analyze <file> [--dry-run]       Re-analyze (--dry-run prints without saving)
+  render <file> [--profile=NAME]   Re-render from the cached analysis
+  upload <file> [--to=DEST]        Publish the cached render (all destinations,
+                                   or only youtube|folder|s3|discord)
+  backfill [--mark=skipped|uploaded]
+                                   Add untracked clips so the bot ignores them
+  usage                            Gemini spending this month and today
+
+Options:
+  --no-music                       Render without the music bed`;
+
+interface Clip {
+  filePath: string;
+  filename: string;
+}
+
+type Command = (
+  args: string[],
+  flags: Flags,
+  config: Config,
+  lock: LockManager,
+) => Promise<void>;
+
+interface Flags {
+  status?: string;
+  from?: string;
+  "dry-run"?: boolean;
+  profile?: string;
+  mark?: string;
+  to?: string;
+  "no-music"?: boolean;
+}
+
+// --- HELPERS ---
+
+// Accepts a path to the clip or the filename of a tracked clip (or of one
+// inside watchPath)
+function resolveClip(
+  config: Config,
+  lock: LockManager,
+  arg: string | undefined,
+): Clip {
+  if (!arg) {
+    throw new Error("Missing <file> argument");
+  }
+  if (existsSync(arg)) {
+    const filePath = resolve(arg);
+    const name = lock.resolve(filePath);
+    return { filePath, filename: name === filePath ? basename(arg) : name };
+  }
+
+  const filename = lock.resolve(basename(arg));
+  return {
+    filePath: sourcePathFor(config, filename, lock.get(filename)),
+    filename,
+  };
+}
+
+function requireState(lock: LockManager, filename: string): VideoState {
+  const state = lock.get(filename);
+  if (!state) {
+    throw new Error(`${filename} is not in the state store`);
+  }
+  return state;
+}
+
+// Notifications from this run, flushed before the CLI exits
+let events: EventBus | undefined;
+
+function eventBus(config: Config): EventBus {
+  return (events ??= createEventBus(config));
+}
+
+async function pipelineContext(
+  config: Config,
+  lock: LockManager,
+  flags: Flags,
+): Promise<PipelineContext> {
+  const analyzer = await createAnalyzer(config);
+  return {
+    config,
+    lock,
+    analyzer,
+    noMusic: flags["no-music"],
+    events: eventBus(config),
+  };
+}
+
+// Render and upload only, no analyzer (and no API key) needed
+function outputContext(config: Config, lock: LockManager, flags: Flags) {
+  return {
+    config,
+    lock,
+    noMusic: flags["no-music"],
+    events: eventBus(config),
+  };
+}
+
+// Ctrl+C cancels a running render and leaves the clip PENDING
+function cancelOnInterrupt(): AbortSignal {
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.log(`\n🛑 Cancelling...`);
+    controller.abort();
+  });
+  return controller.signal;
+}
+
+// --- COMMANDS ---
+
+const status: Command = async ([file], flags, config, lock) => {
+  if (file) {
+    const { filename } = resolveClip(config, lock, file);
+    const state = requireState(lock, filename);
+    console.log(JSON.stringify(state, null, 2));
+    const aliases = lock.aliases(filename);
+    if (aliases.length > 0) {
+      console.log(`\n🔗 Also known as: ${aliases.join(", ")}`);
+    }
+    console.log(`\n📜 History:`);
+    for (const change of lock.history(filename)) {
+      const error = change.errorMessage ? ` (${change.errorMessage})` : "";
+      console.log(
+        `  ${change.at}  ${change.from ?? "-"} → ${change.to}${error}`,
+      );
+    }
+    return;
+  }
+
+  const entries = lock
+    .entries()
+    .filter(([, state]) => !flags.status || state.status === flags.status)
+    .sort(
+      ([, a], [, b]) =>
+        a.status.localeCompare(b.status) ||
+        b.lastUpdated.localeCompare(a.lastUpdated),
+    );
+
+  if (entries.length === 0) {
+    console.log(`📭 No entries.`);
+    return;
+  }
+
+  console.table(
+    entries.map(([name, state]) => ({
+      clip: name,
+      status: state.status,
+      title: state.geminiAnalysis?.title ?? "",
+      profile: state.renderedProfile ?? "",
+      published: Object.entries(state.publications ?? {})
+        .map(([name, p]) => (p.status === "PUBLISHED" ? name : `${name}✗`))
+        .join(" "),
+      updated: state.lastUpdated,
+      info: state.errorMessage ?? state.nextRetryAt ?? state.note ?? "",
+    })),
+  );
+
+  const counts = new Map<string, number>();
+  for (const [, state] of entries) {
+    counts.set(state.status, (counts.get(state.status) ?? 0) + 1);
+  }
+  console.log(
+    [...counts].map(([state, count]) => `${state}: ${count}`).join(" · "),
+  );
+};
+
+const retry: Command = async ([file], flags, config, lock) => {
+  const { filePath, filename } = resolveClip(config, lock, file);
+  const state = lock.get(filename);
+  if (state?.status === "UPLOADED" || state?.status === "SKIPPED") {
+    throw new Error(
+      `${filename} is ${state.status}. Use \`clip reset ${filename} --from=<stage>\` to redo it.`,
+    );
+  }
+
+  lock.update(filename, {
+    status: "PENDING",
+    attempts: undefined,
+    retryStage: undefined,
+    nextRetryAt: undefined,
+    errorMessage: undefined,
+  });
+
+  const ctx = await pipelineContext(config, lock, flags);
+  await processVideo(ctx, filePath, filename, cancelOnInterrupt());
+  console.log(`📌 ${filename}: ${lock.get(filename)?.status}`);
+};
+
+const reset: Command = async ([file], flags, config, lock) => {
+  const { filename } = resolveClip(config, lock, file);
+  const from = flags.from as Stage | undefined;
+  if (!from || !STAGES.includes(from)) {
+    throw new Error(`--from must be one of ${STAGES.join(", ")}`);
+  }
+  requireState(lock, filename);
+
+  resetStages(lock, filename, from);
+  console.log(
+    `♻️ Reset ${filename} from ${from}. The bot redoes it on its next start.`,
+  );
+};
+
+const analyze: Command = async ([file], flags, config, lock) => {
+  const { filePath, filename } = resolveClip(config, lock, file);
+  config = configFor(config, filePath);
+  const ctx = await pipelineContext(config, lock, flags);
+  const analysis = await analyzeClip(ctx, filePath, filename);
+
+  console.log(JSON.stringify(analysis, null, 2));
+  if (flags["dry-run"]) {
+    console.log(`🧪 Dry run, state not changed.`);
+    return;
+  }
+
+  // The cached render (and any approval) no longer matches the analysis
+  resetStages(lock, filename, "analysis");
+  lock.update(filename, { geminiAnalysis: analysis });
+  console.log(`💾 Saved analysis for ${filename}.`);
+};
+
+const render: Command = async ([file], flags, config, lock) => {
+  const { filePath, filename } = resolveClip(config, lock, file);
+  const state = requireState(lock, filename);
+  const analysis = state.geminiAnalysis;
+  if (!analysis || analysis.highlights.length === 0) {
+    throw new Error(`${filename} has no analysis. Run \`clip analyze\` first.`);
+  }
+
+  config = configFor(config, filePath);
+  const ctx = outputContext(config, lock, flags);
+  // An explicit profile sticks, so the bot doesn't re-render with another one
+  if (flags.profile) {
+    lock.update(filename, { renderProfile: flags.profile });
+  }
+  const profileName = flags.profile ?? renderProfileFor(ctx, filename, state);
+
+  // A new render needs to be published again
+  lock.update(filename, {
+    uploadId: undefined,
+    shortUploadId: undefined,
+    publications: undefined,
+  });
+  await renderClip(
+    ctx,
+    filePath,
+    filename,
+    analysis,
+    profileName,
+    cancelOnInterrupt(),
+  );
+};
+
+const upload: Command = async ([file], flags, config, lock) => {
+  const { filePath, filename } = resolveClip(config, lock, file);
+  const state = requireState(lock, filename);
+  config = configFor(config, filePath);
+  if (destinationsFor(config).length === 0) {
+    throw new Error("No publishing destinations configured in config.json");
+  }
+  if (!state.outputFilePath || !state.geminiAnalysis) {
+    throw new Error(`${filename} has no render. Run \`clip render\` first.`);
+  }
+
+  // The analyzer writes the description and tags, when it can be created
+  const analyzer = await createAnalyzer(config).catch(() => undefined);
+  await publishClip(
+    { ...outputContext(config, lock, flags), analyzer },
+    filename,
+    flags.to,
+  );
+};
+
+// Adds clips the bot has never seen, so it doesn't process an old backlog
+const backfill: Command = async (_args, flags, config, lock) => {
+  const mark = flags.mark ?? "skipped";
+  if (mark !== "skipped" && mark !== "uploaded") {
+    throw new Error("--mark must be skipped or uploaded");
+  }
+  const status = mark === "uploaded" ? "UPLOADED" : "SKIPPED";
+  console.log(`📂 Scanning folders: ${watchRoots(config).join(", ")}`);
+
+  let addedCount = 0;
+  for (const filePath of await scanClips(config)) {
+    // Tracked under this path, as a copy or renamed, or from before clips
+    // were hashed
+    const legacy = lock.get(basename(filePath));
+    const tracked =
+      lock.resolve(filePath) !== filePath ||
+      lock.findByHash(await contentHash(filePath)).length > 0 ||
+      (legacy && !legacy.contentHash);
+    if (tracked) {
+      console.log(`⏭️  Skipping ${filePath} (already tracked)`);
+      continue;
+    }
+
+    const file = await identifyClip(lock, filePath);
+    lock.update(file, { status, note: "Backfilled via clip backfill" });
+    addedCount++;
+    console.log(`✅ Marked as ${status}: ${file}`);
+  }
+
+  console.log(`🎉 Added ${addedCount} files. You can now start the bot.`);
+};
+
+const usage: Command = async (_args, _flags, config, lock) => {
+  const budget = config.analyzer?.gemini?.budget;
+  console.table(
+    budgetPeriods(lock, budget).map((period) => ({
+      period: period.name,
+      since: period.since.toISOString(),
+      calls: period.calls,
+      "input tokens": period.inputTokens,
+      "output tokens": period.outputTokens,
+      "video (s)": Math.round(period.videoSeconds),
+      "spent ($)": period.costUsd.toFixed(2),
+      "budget ($)": period.limitUsd?.toFixed(2) ?? "",
+    })),
+  );
+};
+
+const COMMANDS: Record<string, Command> = {
+  status,
+  retry,
+  reset,
+  analyze,
+  render,
+  upload,
+  backfill,
+  usage,
+};
+
+// --- MAIN ---
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      status: { type: "string" },
+      from: { type: "string" },
+      "dry-run": { type: "boolean" },
+      profile: { type: "string" },
+      mark: { type: "string" },
+      to: { type: "string" },
+      "no-music": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [name, ...args] = positionals;
+  const command = name ? COMMANDS[name] : undefined;
+  if (!command || values.help) {
+    console.log(USAGE);
+    process.exit(command || values.help ? 0 : 1);
+  }
+
+  const config = await loadConfig();
+  const lock = new LockManager();
+  await command(args, values, config, lock);
+  await events?.flush();
+}
+
+main().catch(async (error) => {
+  console.error(`💥 ${error.message ?? error}`);
+  await events?.flush();
+  process.exit(1);
+});
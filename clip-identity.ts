@@ -0,0 +1,124 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { stat } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import type { LockManager } from "./lock-manager";
+import { probeDuration } from "./media";
+
+// Bytes hashed at the start, middle and end of the file
+const SAMPLE_BYTES = 1024 * 1024;
+
+// Size plus samples from three places: fast even for multi-GB recordings,
+// and it doesn't change when the file is renamed, moved or copied
+export async function contentHash(filePath: string): Promise<string> {
+  const file = Bun.file(filePath);
+  const hash = createHash("sha256").update(String(file.size));
+
+  const middle = Math.max(0, Math.floor((file.size - SAMPLE_BYTES) / 2));
+  for (const start of [0, middle, Math.max(0, file.size - SAMPLE_BYTES)]) {
+    const sample = await file.slice(start, start + SAMPLE_BYTES).arrayBuffer();
+    hash.update(new Uint8Array(sample));
+  }
+  return hash.digest("hex");
+}
+
+// Durations within this many seconds are the same clip
+const DURATION_TOLERANCE_SECONDS = 0.1;
+
+// Entry name that isn't taken yet: "clip.mp4", "clip (2).mp4", ...
+function freeName(lock: LockManager, filename: string): string {
+  const ext = extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+  let name = filename;
+  for (let n = 2; lock.get(name); n++) {
+    name = `${stem} (${n})${ext}`;
+  }
+  return name;
+}
+
+// Name of the state entry for a clip on disk. Clips are identified by
+// content (hash, size and duration), filenames and paths are aliases:
+// - a clip whose file moved or was renamed keeps its entry, which takes
+//   the new filename when it is free;
+// - a copy of a tracked clip is linked to that entry and reuses its
+//   analysis, render and uploads instead of going through the pipeline;
+// - a different clip with a taken filename (same name in another folder)
+//   gets its own entry, "clip (2).mp4".
+export async function identifyClip(
+  lock: LockManager,
+  filePath: string,
+): Promise<string> {
+  const filename = basename(filePath);
+  const { size, mtimeMs } = await stat(filePath);
+  const file = { sourceSize: size, sourceMtimeMs: mtimeMs };
+
+  // Seen at this path before, and still the same file (a new recording
+  // saved under an old name is not): no need to hash it again. Copies
+  // keep the original's size and mtime, so they are hashed every time.
+  const known = lock.resolve(filePath);
+  const seen = known !== filePath ? lock.get(known) : undefined;
+  if (
+    seen?.contentHash &&
+    seen.sourceSize === size &&
+    seen.sourceMtimeMs === mtimeMs
+  ) {
+    return known;
+  }
+
+  const hash = await contentHash(filePath);
+  const duration = await probeDuration(filePath).catch(() => undefined);
+  const sameClip = lock.findByHash(hash).filter((name) => {
+    const other = lock.get(name)!.sourceDuration;
+    return (
+      duration === undefined ||
+      other === undefined ||
+      Math.abs(other - duration) <= DURATION_TOLERANCE_SECONDS
+    );
+  });
+
+  const existing = sameClip[0];
+  if (existing) {
+    const state = lock.get(existing)!;
+    const original = state.sourcePath;
+    if (original && original !== filePath && existsSync(original)) {
+      console.log(`🔗 [DUPLICATE] ${filePath} is a copy of ${existing}`);
+      lock.addAlias(filePath, existing);
+      if (!lock.get(filename)) lock.addAlias(filename, existing);
+      return existing;
+    }
+
+    let name = existing;
+    if (existing !== filename && !lock.get(filename)) {
+      console.log(`🔀 [WATCH] ${existing} was renamed to ${filePath}`);
+      lock.rename(existing, filename);
+      name = filename;
+    }
+    lock.update(name, {
+      sourcePath: filePath,
+      sourceDuration: duration,
+      ...file,
+    });
+    lock.addAlias(filePath, name);
+    return name;
+  }
+
+  // Entries from before clips were hashed are adopted by their file
+  let name = filename;
+  const current = lock.get(filename);
+  if (
+    current &&
+    (current.contentHash ||
+      (current.sourcePath && current.sourcePath !== filePath))
+  ) {
+    name = freeName(lock, filename);
+  }
+
+  lock.update(name, {
+    contentHash: hash,
+    sourceDuration: duration,
+    sourcePath: filePath,
+    ...file,
+  });
+  lock.addAlias(filePath, name);
+  return name;
+}
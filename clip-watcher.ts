@@ -0,0 +1,195 @@
+import { watch, type FSWatcher } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import { extname, join, relative, resolve, sep } from "node:path";
+import type { Config } from "./config";
+
+export const VIDEO_EXTENSIONS = [".mp4", ".mkv", ".mov", ".avi"];
+
+// Our own outputs (processed/ next to each clip) and hidden/temp files
+const DEFAULT_EXCLUDE = [
+  "**/processed/**",
+  "**/*_montage*",
+  "**/*_vertical*",
+  "**/.*",
+];
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 10;
+
+// Every watched folder, watchPath first
+export function watchRoots(config: Config): string[] {
+  const roots = [
+    config.watchPath,
+    ...(config.watch?.paths ?? []).map((p) =>
+      typeof p === "string" ? p : p.path,
+    ),
+  ];
+  return [...new Set(roots.map((root) => resolve(root)))];
+}
+
+// Same rules for the watcher, the startup scan and `clip backfill`
+export function isClip(config: Config, root: string, filePath: string) {
+  const options = config.watch ?? {};
+  const extensions = options.extensions ?? VIDEO_EXTENSIONS;
+  if (!extensions.includes(extname(filePath).toLowerCase())) return false;
+
+  const path = relative(root, filePath).split(sep).join("/");
+  if (path.startsWith("..")) return false;
+  if (options.recursive === false && path.includes("/")) return false;
+
+  const matches = (patterns: string[]) =>
+    patterns.some((pattern) => new Bun.Glob(pattern).match(path));
+  if (options.include?.length && !matches(options.include)) return false;
+  return !matches([...DEFAULT_EXCLUDE, ...(options.exclude ?? [])]);
+}
+
+// Clips currently in the watched folders
+export async function scanClips(config: Config): Promise<string[]> {
+  const clips: string[] = [];
+  for (const root of watchRoots(config)) {
+    try {
+      const entries = await readdir(root, {
+        recursive: config.watch?.recursive !== false,
+      });
+      for (const entry of entries) {
+        const filePath = join(root, entry);
+        if (isClip(config, root, filePath) && (await isFile(filePath))) {
+          clips.push(filePath);
+        }
+      }
+    } catch (error: any) {
+      console.error(`⚠️ [WATCH] Can't scan ${root}: ${error.message}`);
+    }
+  }
+  return clips;
+}
+
+async function isFile(filePath: string) {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false; // Deleted or moved in the meantime
+  }
+}
+
+async function waitForFileToBeReady(
+  filePath: string,
+  interval = 1000,
+  maxRetries = 60,
+): Promise<boolean> {
+  let lastSize = -1;
+  let retries = 0;
+
+  while (retries < maxRetries) {
+    try {
+      const stats = await stat(filePath);
+      // Ensure file has size > 0 and hasn't changed size in the last second
+      if (stats.size > 0 && stats.size === lastSize) {
+        return true;
+      }
+      lastSize = stats.size;
+    } catch (e) {
+      // File might be locked by OBS or not accessible yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+    retries++;
+  }
+  return false;
+}
+
+// Reports clips that appear in the watched folders (new, renamed, moved in
+// or remuxed) once they stop growing. The same file can be reported again
+// later; callers decide whether it still needs work.
+export class ClipWatcher {
+  private watchers: FSWatcher[] = [];
+  private timers: ReturnType<typeof setInterval>[] = [];
+  private pending = new Set<string>();
+
+  constructor(
+    private config: Config,
+    private onClip: (filePath: string) => void,
+  ) {}
+
+  async start() {
+    for (const root of watchRoots(this.config)) {
+      if (this.config.watch?.poll) {
+        await this.poll(root);
+        continue;
+      }
+
+      try {
+        const watcher = watch(
+          root,
+          { recursive: this.config.watch?.recursive !== false },
+          (_eventType, filename) => {
+            if (filename) this.check(root, join(root, filename));
+          },
+        );
+        watcher.on("error", (error) => {
+          console.error(`⚠️ [WATCH] ${root}: ${error.message}, polling.`);
+          watcher.close();
+          this.poll(root);
+        });
+        this.watchers.push(watcher);
+      } catch (error: any) {
+        console.error(`⚠️ [WATCH] ${root}: ${error.message}, polling.`);
+        await this.poll(root);
+      }
+    }
+  }
+
+  close() {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.timers.forEach((timer) => clearInterval(timer));
+  }
+
+  // Reports files that weren't there (or had another size) on the last scan
+  private async poll(root: string) {
+    const config = {
+      ...this.config,
+      watchPath: root,
+      watch: { ...this.config.watch, paths: [] },
+    };
+    const sizes = async () => {
+      const result = new Map<string, number>();
+      for (const filePath of await scanClips(config)) {
+        result.set(
+          filePath,
+          (await stat(filePath).catch(() => null))?.size ?? 0,
+        );
+      }
+      return result;
+    };
+
+    let known = await sizes();
+    const interval =
+      this.config.watch?.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS;
+    this.timers.push(
+      setInterval(async () => {
+        const current = await sizes();
+        for (const [filePath, size] of current) {
+          if (known.get(filePath) !== size) this.check(root, filePath);
+        }
+        known = current;
+      }, interval * 1000),
+    );
+  }
+
+  private async check(root: string, filePath: string) {
+    if (this.pending.has(filePath) || !isClip(this.config, root, filePath)) {
+      return;
+    }
+
+    // Events come in bursts (rename, then change while it's written)
+    this.pending.add(filePath);
+    try {
+      if (!(await isFile(filePath))) return; // Deleted or moved away
+      if (await waitForFileToBeReady(filePath)) {
+        this.onClip(filePath);
+      } else {
+        console.log(`⚠️ File ${filePath} timed out or was locked.`);
+      }
+    } finally {
+      this.pending.delete(filePath);
+    }
+  }
+}
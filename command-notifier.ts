@@ -0,0 +1,36 @@
+import { spawn } from "node:child_process";
+import type { PipelineEvent } from "./events";
+import { describeEvent, type Notifier } from "./notifier";
+
+// Runs a shell command per event, e.g. `notify-send "Clips" "$CLIP_MESSAGE"`
+// for desktop notifications. The event is passed as JSON on stdin and as
+// CLIP_EVENT, CLIP_FILENAME and CLIP_MESSAGE environment variables.
+export class CommandNotifier implements Notifier {
+  readonly name = "command";
+
+  constructor(private command: string) {}
+
+  notify(event: PipelineEvent): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, {
+        shell: true,
+        stdio: ["pipe", "inherit", "inherit"],
+        env: {
+          ...process.env,
+          CLIP_EVENT: event.type,
+          CLIP_FILENAME: event.filename,
+          CLIP_MESSAGE: describeEvent(event),
+        },
+      });
+
+      child.stdin.on("error", () => {}); // The command may not read stdin
+      child.stdin.end(JSON.stringify(event));
+
+      child.on("close", (code) => {
+        if (code === 0) resolve();
+        else reject(new Error(`Command exited with code ${code}`));
+      });
+      child.on("error", reject);
+    });
+  }
+}
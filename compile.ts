@@ -0,0 +1,233 @@
+import { existsSync } from "node:fs";
+import { stat } from "node:fs/promises";
+import type { Analyzer, AnalyzerUsage, Highlight } from "./analyzer";
+import { createAnalyzer } from "./analyzer-factory";
+import { loadConfig, type Config } from "./config";
+import { scoreOf, timeToSeconds } from "./highlights";
+import { LockManager, type VideoState } from "./lock-manager";
+import {
+  publishClip,
+  renderClip,
+  renderProfileFor,
+  sourcePathFor,
+} from "./pipeline";
+import { createEventBus } from "./notifier-factory";
+import { destinationsFor } from "./publisher-factory";
+import { resolveRenderProfile, type RenderProfile } from "./render-profiles";
+import type { Stage } from "./retry-policy";
+
+interface SessionClip {
+  filename: string;
+  filePath: string;
+  recordedAt: number;
+  state: VideoState;
+}
+
+// --- HELPER FUNCTIONS ---
+
+// --since <date> --until <date> or --hours <n> (default: last 12 hours)
+function parseWindow(argv: string[]): { since: Date; until: Date } {
+  const arg = (name: string) => {
+    const i = argv.indexOf(name);
+    return i >= 0 ? argv[i + 1] : undefined;
+  };
+
+  const until = arg("--until") ? new Date(arg("--until")!) : new Date();
+  const since = arg("--since")
+    ? new Date(arg("--since")!)
+    : new Date(until.getTime() - Number(arg("--hours") ?? 12) * 3_600_000);
+
+  if (Number.isNaN(since.getTime()) || Number.isNaN(until.getTime())) {
+    throw new Error("Invalid --since/--until date");
+  }
+  return { since, until };
+}
+
+// Recording time of a clip: file mtime, or the lock entry's last update
+// when the file is gone.
+async function recordedAt(filePath: string, state: VideoState) {
+  try {
+    return (await stat(filePath)).mtimeMs;
+  } catch {
+    return new Date(state.lastUpdated).getTime();
+  }
+}
+
+async function findSessionClips(
+  lock: LockManager,
+  config: Config,
+  since: Date,
+  until: Date,
+): Promise<SessionClip[]> {
+  const clips: SessionClip[] = [];
+
+  for (const [filename, state] of lock.entries()) {
+    // Only analysed source clips, never other compilations
+    if (!state.geminiAnalysis?.highlights.length || state.sources) continue;
+
+    const filePath = sourcePathFor(config, filename, state);
+    const time = await recordedAt(filePath, state);
+    if (time < since.getTime() || time > until.getTime()) continue;
+
+    // Its highlights can't be cut from a file that is gone
+    if (!existsSync(filePath)) {
+      console.log(`⚠️ [SKIP] ${filename}: ${filePath} no longer exists.`);
+      continue;
+    }
+    clips.push({ filename, filePath, recordedAt: time, state });
+  }
+
+  return clips.sort((a, b) => a.recordedAt - b.recordedAt);
+}
+
+// Keeps the best-scored highlights within the limits, then puts them back
+// in recording order. The length counts buffers and transitions like the
+// render does (as in highlight-selection.ts).
+function rankHighlights(
+  clips: SessionClip[],
+  maxSeconds: number,
+  maxHighlights: number,
+  profile: Pick<RenderProfile, "bufferSeconds" | "transitionDuration">,
+): Highlight[] {
+  const candidates = clips.flatMap((clip, clipIndex) =>
+    clip.state.geminiAnalysis!.highlights.map((h) => ({
+      highlight: { ...h, source: clip.filePath },
+      clipIndex,
+      start: timeToSeconds(h.start_time),
+      duration:
+        timeToSeconds(h.end_time) -
+        timeToSeconds(h.start_time) +
+        2 * profile.bufferSeconds,
+    })),
+  );
+
+  candidates.sort((a, b) => scoreOf(b.highlight) - scoreOf(a.highlight));
+
+  const picked: typeof candidates = [];
+  let total = 0;
+  for (const c of candidates) {
+    if (picked.length >= maxHighlights) break;
+    const added =
+      picked.length === 0
+        ? c.duration
+        : c.duration - profile.transitionDuration;
+    if (total + added > maxSeconds) continue;
+    picked.push(c);
+    total += added;
+  }
+
+  return picked
+    .sort((a, b) => a.clipIndex - b.clipIndex || a.start - b.start)
+    .map((c) => c.highlight);
+}
+
+// --- MAIN LOGIC ---
+
+async function main() {
+  const config = await loadConfig();
+  const { since, until } = parseWindow(process.argv.slice(2));
+  const lock = new LockManager();
+
+  console.log(
+    `🎞️  Building compilation for ${since.toISOString()} → ${until.toISOString()}`,
+  );
+
+  const found = await findSessionClips(lock, config, since, until);
+  if (found.length === 0) {
+    console.log(`⚠️ [STOP] No analysed clips in this window.`);
+    return;
+  }
+  console.log(`📂 Found ${found.length} clips with highlights.`);
+
+  // A new entry per run: compiling the same window again makes a new video,
+  // which must not inherit the old one's publications
+  const id = `compilation-${since.toISOString()}-${new Date().toISOString()}`;
+  const ctx = { config, lock, events: createEventBus(config) };
+  const profileName = renderProfileFor(ctx, id);
+
+  const highlights = rankHighlights(
+    found,
+    config.compilation?.maxSeconds ?? 180,
+    config.compilation?.maxHighlights ?? 20,
+    resolveRenderProfile(profileName, config.render),
+  );
+  if (highlights.length === 0) {
+    console.log(
+      `⚠️ [STOP] No highlight fits in compilation.maxSeconds (buffers included).`,
+    );
+    return;
+  }
+  // Only the clips a picked highlight comes from
+  const clips = found.filter((clip) =>
+    highlights.some((h) => h.source === clip.filePath),
+  );
+
+  // --- TITLE ---
+  const titles = clips.map((c) => c.state.geminiAnalysis!.title);
+  let title = titles[0]!;
+  let analyzer: Analyzer | undefined;
+  const usage: AnalyzerUsage[] = []; // Recorded once the entry exists
+  try {
+    analyzer = await createAnalyzer(config);
+    if (analyzer.generateTitle) {
+      title = await analyzer.generateTitle(
+        titles,
+        highlights.map((h) => h.description),
+        (call) => usage.push(call),
+      );
+    }
+  } catch (error: any) {
+    console.log(
+      `⚠️ Title generation failed (${error.message}), using "${title}".`,
+    );
+  }
+  console.log(`✨ Title: "${title}" (${highlights.length} clips)`);
+
+  const sources = clips.map((c) => c.filename);
+  const analysis = { title, highlights };
+  lock.update(id, {
+    originalName: title,
+    geminiAnalysis: analysis,
+    sources,
+  });
+  usage.forEach((call) => lock.recordUsage(id, call));
+
+  // Same render and upload stages as single clips
+  const output = { ...ctx, analyzer };
+  let stage: Stage = "render";
+
+  try {
+    // --- RENDERING (FFMPEG) ---
+    await renderClip(output, clips[0]!.filePath, id, analysis, profileName);
+
+    for (const clip of clips) {
+      lock.update(clip.filename, {
+        compilations: [...(clip.state.compilations ?? []), id],
+      });
+    }
+
+    // --- PUBLISH ---
+    if (destinationsFor(config).length === 0) {
+      lock.update(id, { status: "RENDERED_NO_UPLOAD" });
+      return;
+    }
+    stage = "upload";
+    await publishClip(output, id);
+  } catch (error: any) {
+    console.error(`💥 [ERROR] Compilation failed:`, error);
+    const errorMessage = error.message || "Unknown Error";
+    lock.update(id, { status: "FAILED", errorMessage });
+    process.exitCode = 1;
+    ctx.events.emit("clip.failed", {
+      filename: id,
+      stage,
+      error: errorMessage,
+    });
+  }
+  await ctx.events.flush();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,729 @@
+import { watchFile } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { resolve, sep } from "node:path";
+import type { ProxyOptions } from "./analysis-proxy";
+import type { WindowOptions } from "./analysis-windows";
+import type { AudioReactionOptions } from "./audio-detector";
+import { EVENT_NAMES } from "./events";
+import type { GeminiOptions } from "./gemini";
+import type { SelectionOptions } from "./highlight-selection";
+import type { KillFeedOptions } from "./killfeed-detector";
+import type { LocalAnalyzerOptions } from "./local-analyzer";
+import type { MusicOptions } from "./music";
+import type { NotifierConfig } from "./notifier";
+import type { OverlayOptions } from "./overlays";
+import { destinationsFor, type PublishConfig } from "./publisher-factory";
+import type { RenderConfig } from "./render-profiles";
+import type { RetryConfig } from "./retry-policy";
+import type { VerticalOptions } from "./video-processor";
+import type { YouTubeOptions } from "./youtube-uploader";
+
+export const CONFIG_PATH = "./config.json";
+
+// --- CONFIGURATION TYPES ---
+
+// Settings a watch folder can change for the clips inside it
+export interface ConfigOverrides {
+  killFeed?: KillFeedOptions;
+  audioReactions?: AudioReactionOptions;
+  render?: RenderConfig;
+  vertical?: VerticalOptions;
+  overlays?: OverlayOptions;
+  music?: MusicOptions;
+  selection?: SelectionOptions;
+  review?: Config["review"];
+  publish?: PublishConfig;
+  youtube?: Partial<YouTubeOptions>; // Credentials excluded
+}
+
+export interface WatchFolder {
+  path: string;
+  overrides?: ConfigOverrides;
+}
+
+export interface WatchOptions {
+  paths?: (string | WatchFolder)[]; // Watched besides watchPath
+  recursive?: boolean; // Include subfolders (default on)
+  extensions?: string[]; // Default: VIDEO_EXTENSIONS
+  // Globs relative to the watched folder, e.g. "Valorant/**". A clip must
+  // match one `include` (when set) and no `exclude`.
+  include?: string[];
+  exclude?: string[];
+  // Rescan instead of relying on file system events, which network shares
+  // (SMB, NFS) often don't deliver
+  poll?: boolean;
+  pollIntervalSeconds?: number;
+}
+
+export interface Config {
+  watchPath: string;
+  watch?: WatchOptions;
+  geminiApiKey: string;
+  maxConcurrent: number;
+  analyzer?: {
+    provider?: "gemini" | "local" | "killfeed";
+    maxAttempts?: number;
+    gemini?: GeminiOptions;
+    // Small copy of the clip the model sees (gemini and local analyzers)
+    proxy?: ProxyOptions;
+    // Long recordings are analysed in overlapping windows
+    windows?: WindowOptions;
+    local?: LocalAnalyzerOptions;
+  };
+  killFeed?: KillFeedOptions;
+  audioReactions?: AudioReactionOptions;
+  render?: RenderConfig;
+  vertical?: VerticalOptions;
+  overlays?: OverlayOptions;
+  music?: MusicOptions;
+  // Highlights picked for a target montage length
+  selection?: SelectionOptions;
+  compilation?: {
+    // Longest compilation, buffers and transitions counted (title card and
+    // outro not)
+    maxSeconds?: number;
+    maxHighlights?: number;
+  };
+  retry?: RetryConfig;
+  review?: {
+    enabled?: boolean; // Stop at AWAITING_REVIEW until approved
+    port?: number;
+    // Dashboard interface; "0.0.0.0" exposes it (it has no login)
+    host?: string;
+  };
+  publish?: PublishConfig;
+  notifications?: NotifierConfig[];
+  youtube?: YouTubeOptions;
+}
+
+const DEFAULTS = {
+  maxConcurrent: 1,
+  analyzer: { provider: "gemini" },
+  watch: { recursive: true },
+  review: { enabled: false, port: 3000, host: "127.0.0.1" },
+  retry: { checkIntervalSeconds: 30 },
+};
+
+// Secrets can come from the environment (or a .env file, which Bun loads)
+// instead of config.json. The environment wins.
+const SECRET_ENV: [variable: string, path: string][] = [
+  ["GEMINI_API_KEY", "geminiApiKey"],
+  ["YOUTUBE_CLIENT_ID", "youtube.clientId"],
+  ["YOUTUBE_CLIENT_SECRET", "youtube.clientSecret"],
+  ["YOUTUBE_REFRESH_TOKEN", "youtube.refreshToken"],
+  ["S3_ACCESS_KEY_ID", "publish.s3.accessKeyId"],
+  ["S3_SECRET_ACCESS_KEY", "publish.s3.secretAccessKey"],
+  ["DISCORD_WEBHOOK_URL", "publish.discord.webhookUrl"],
+  ["LOCAL_ANALYZER_API_KEY", "analyzer.local.apiKey"],
+];
+
+// Settings that are read once at startup (the watchers, the analyzer
+// client, the dashboard server and the notifiers); changing them needs a
+// restart. Everything else, per-folder overrides included, applies to the
+// next clip.
+const RESTART_SETTINGS = [
+  "watchPath",
+  "watch.paths",
+  "watch.recursive",
+  "watch.poll",
+  "watch.pollIntervalSeconds",
+  "analyzer.provider",
+  "analyzer.gemini.model",
+  "analyzer.gemini.requestsPerMinute",
+  "analyzer.gemini.pricing",
+  "analyzer.local",
+  "review",
+  "notifications",
+];
+
+// What a restart setting compares by: for the watched folders, the folders
+// themselves and not their overrides
+function restartValue(config: Config, path: string): unknown {
+  if (path === "watch.paths") {
+    return (config.watch?.paths ?? []).map((entry) =>
+      typeof entry === "string" ? entry : entry.path,
+    );
+  }
+  return getPath(config, path);
+}
+
+export class ConfigError extends Error {
+  constructor(
+    public errors: string[],
+    path: string = CONFIG_PATH,
+  ) {
+    super(`Invalid ${path}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// --- SCHEMA ---
+
+type Schema =
+  | {
+      type: "string";
+      enum?: readonly string[];
+      pattern?: RegExp;
+      hint?: string;
+    }
+  | { type: "number"; min?: number; max?: number; integer?: boolean }
+  | { type: "boolean" }
+  | { type: "array"; items: Schema; length?: number }
+  | {
+      type: "object";
+      properties?: Record<string, Schema>;
+      values?: Schema; // Maps with free keys (profiles, perClip, ...)
+      required?: string[];
+    }
+  | { type: "union"; of: Schema[]; hint: string };
+
+const string = (
+  options: Omit<Extract<Schema, { type: "string" }>, "type"> = {},
+) => ({ type: "string", ...options }) as const;
+const number = (min?: number, max?: number, integer = false) =>
+  ({ type: "number", min, max, integer }) as const;
+const boolean = { type: "boolean" } as const;
+const array = (items: Schema, length?: number) =>
+  ({ type: "array", items, length }) as const;
+const object = (properties: Record<string, Schema>, required?: string[]) =>
+  ({ type: "object", properties, required }) as const;
+const map = (values: Schema) => ({ type: "object", values }) as const;
+
+const seconds = number(0);
+const url = string({ pattern: /^https?:\/\//, hint: "an http(s) URL" });
+const resolution = string({
+  pattern: /^\d+[x:]\d+$/,
+  hint: 'like "1920x1080"',
+});
+
+const TEXT_STYLE = object({
+  fontFile: string(),
+  fontSize: number(1),
+  fontColor: string(),
+  borderColor: string(),
+  borderWidth: number(0),
+  boxColor: string(),
+  position: string({ enum: ["top", "center", "bottom"] }),
+});
+
+const RENDER_PROFILE = object({
+  extends: string(),
+  bufferSeconds: seconds,
+  transition: string(),
+  transitionDuration: seconds,
+  fps: number(1, 240),
+  resolution,
+  videoCodec: string(),
+  preset: string(),
+  crf: number(0, 63),
+  videoBitrate: string(),
+  audioCodec: string(),
+  audioBitrate: string(),
+  audioSampleRate: number(8000, 192000, true),
+});
+
+const RETRY_POLICY = object({
+  maxAttempts: number(1, undefined, true),
+  baseDelaySeconds: seconds,
+  maxDelaySeconds: seconds,
+});
+
+const OVERRIDABLE: Record<keyof ConfigOverrides, Schema> = {
+  killFeed: object({
+    fps: number(0.1, 60),
+    region: object(
+      {
+        x: number(0, 1),
+        y: number(0, 1),
+        width: number(0, 1),
+        height: number(0, 1),
+      },
+      ["x", "y", "width", "height"],
+    ),
+    color: array(number(0, 255, true), 3),
+    colorTolerance: number(0),
+    templatePath: string(),
+    threshold: number(0, 1),
+    templateThreshold: number(0, 1),
+    comboWindowSeconds: seconds,
+    preRollSeconds: seconds,
+    postRollSeconds: seconds,
+    refine: boolean,
+  }),
+  audioReactions: object({
+    enabled: boolean,
+    spikeDb: number(0),
+    sustainDb: number(0),
+    minSustainSeconds: seconds,
+    minCandidateScore: number(0, 1),
+    minScore: number(0, 1),
+    preRollSeconds: seconds,
+    postRollSeconds: seconds,
+  }),
+  render: object({
+    profile: string(),
+    uploadProfile: string(),
+    perClip: map(string()),
+    profiles: map(RENDER_PROFILE),
+  }),
+  vertical: object({
+    enabled: boolean,
+    mode: string({ enum: ["blur", "center", "crosshair"] }),
+    maxSeconds: number(1, 180),
+    resolution,
+    crosshairZoom: number(0.05, 1),
+  }),
+  overlays: object({
+    style: TEXT_STYLE,
+    captions: object({
+      enabled: boolean,
+      durationSeconds: seconds,
+      style: TEXT_STYLE,
+    }),
+    titleCard: object({
+      enabled: boolean,
+      durationSeconds: seconds,
+      background: string(),
+      style: TEXT_STYLE,
+    }),
+    outro: object({
+      enabled: boolean,
+      durationSeconds: seconds,
+      background: string(),
+      text: string(),
+      logoPath: string(),
+      style: TEXT_STYLE,
+    }),
+  }),
+  selection: object({
+    enabled: boolean,
+    minSeconds: seconds,
+    maxSeconds: number(1),
+    minScore: number(0, 1),
+    endOnBest: boolean,
+  }),
+  music: object({
+    enabled: boolean,
+    folder: string(),
+    volume: number(0),
+    fadeSeconds: seconds,
+    duckThreshold: number(0, 1),
+    duckRatio: number(1, 20),
+    duckAttackMs: number(0),
+    duckReleaseMs: number(0),
+  }),
+  review: object({
+    enabled: boolean,
+    port: number(1, 65535, true),
+    host: string(),
+  }),
+  publish: object({
+    destinations: array(
+      string({ enum: ["youtube", "folder", "s3", "discord"] }),
+    ),
+    folder: object({ path: string(), vertical: boolean }),
+    s3: object({
+      bucket: string(),
+      endpoint: url,
+      region: string(),
+      accessKeyId: string(),
+      secretAccessKey: string(),
+      prefix: string(),
+      publicUrl: string(),
+      presignSeconds: number(1, 7 * 24 * 3600, true),
+      vertical: boolean,
+    }),
+    discord: object({
+      webhookUrl: url,
+      username: string(),
+      attach: boolean,
+      maxAttachmentMb: number(0),
+    }),
+  }),
+  youtube: object({
+    privacy: string({ enum: ["private", "unlisted", "public"] }),
+    playlistId: string(),
+    tags: array(string()),
+    thumbnail: boolean,
+    aiMetadata: boolean,
+    schedule: object(
+      {
+        enabled: boolean,
+        slots: array(string({ pattern: /^\d{1,2}:\d{2}$/, hint: '"HH:MM"' })),
+        days: array(number(0, 6, true)),
+        minLeadMinutes: number(0),
+      },
+      ["slots"],
+    ),
+    chunkSizeMb: number(0.25),
+    apiBaseUrl: url,
+    tokenUrl: url,
+  }),
+};
+
+const CONFIG_SCHEMA = object(
+  {
+    watchPath: string(),
+    watch: object({
+      paths: array({
+        type: "union",
+        hint: "a folder path or { path, overrides }",
+        of: [
+          string(),
+          object({ path: string(), overrides: object(OVERRIDABLE) }, ["path"]),
+        ],
+      }),
+      recursive: boolean,
+      extensions: array(string({ pattern: /^\.\w+$/, hint: 'like ".mp4"' })),
+      include: array(string()),
+      exclude: array(string()),
+      poll: boolean,
+      pollIntervalSeconds: number(1),
+    }),
+    geminiApiKey: string(),
+    maxConcurrent: number(1, undefined, true),
+    analyzer: object({
+      provider: string({ enum: ["gemini", "local", "killfeed"] }),
+      maxAttempts: number(1, undefined, true),
+      gemini: object({
+        model: string(),
+        requestsPerMinute: number(1),
+        pricing: object({
+          inputPerMillion: number(0),
+          outputPerMillion: number(0),
+        }),
+        budget: object({ dailyUsd: number(0), monthlyUsd: number(0) }),
+      }),
+      proxy: object({
+        enabled: boolean,
+        height: number(144, undefined, true),
+        fps: number(1, 60),
+        crf: number(0, 51, true),
+        trimIdle: boolean,
+        motionThreshold: number(0, 1),
+        silenceDb: number(undefined, 0),
+        minIdleSeconds: number(1),
+        paddingSeconds: seconds,
+      }),
+      windows: object({
+        windowSeconds: number(30),
+        overlapSeconds: seconds,
+      }),
+      local: object(
+        {
+          baseUrl: url,
+          model: string(),
+          apiKey: string(),
+          timeoutMs: number(1),
+          structuredOutput: boolean,
+          maxInlineMb: number(1),
+        },
+        ["baseUrl", "model"],
+      ),
+    }),
+    ...OVERRIDABLE,
+    compilation: object({
+      maxSeconds: number(1),
+      maxHighlights: number(1, undefined, true),
+    }),
+    retry: object({
+      analysis: RETRY_POLICY,
+      render: RETRY_POLICY,
+      upload: RETRY_POLICY,
+      checkIntervalSeconds: number(1),
+    }),
+    notifications: array(
+      object(
+        {
+          type: string({ enum: ["webhook", "discord", "slack", "command"] }),
+          url,
+          headers: map(string()),
+          username: string(),
+          command: string(),
+          events: array(string({ enum: EVENT_NAMES })),
+        },
+        ["type"],
+      ),
+    ),
+    youtube: object({
+      clientId: string(),
+      clientSecret: string(),
+      refreshToken: string(),
+      ...(OVERRIDABLE.youtube as { properties: Record<string, Schema> })
+        .properties,
+    }),
+  },
+  ["watchPath"],
+);
+
+function describe(value: unknown): string {
+  return Array.isArray(value)
+    ? "an array"
+    : value === null
+      ? "null"
+      : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+// Appends what's wrong with `value` to `errors`. Unknown keys are only
+// warnings, so a typo is reported without refusing to start.
+function check(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  errors: string[],
+  warnings: string[],
+) {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        errors.push(`${path} must be a string (got ${describe(value)})`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(
+          `${path} must be one of ${schema.enum.join(", ")} (got "${value}")`,
+        );
+      } else if (
+        schema.pattern &&
+        value !== "" &&
+        !schema.pattern.test(value)
+      ) {
+        errors.push(`${path} must be ${schema.hint} (got "${value}")`);
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        errors.push(`${path} must be a number (got ${describe(value)})`);
+      } else if (schema.integer && !Number.isInteger(value)) {
+        errors.push(`${path} must be a whole number (got ${value})`);
+      } else if (
+        (schema.min !== undefined && value < schema.min) ||
+        (schema.max !== undefined && value > schema.max)
+      ) {
+        const range =
+          schema.max === undefined
+            ? `at least ${schema.min}`
+            : `between ${schema.min ?? "-∞"} and ${schema.max}`;
+        errors.push(`${path} must be ${range} (got ${value})`);
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push(`${path} must be true or false (got ${describe(value)})`);
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be a list (got ${describe(value)})`);
+        return;
+      }
+      if (schema.length !== undefined && value.length !== schema.length) {
+        errors.push(`${path} must have ${schema.length} items`);
+      }
+      value.forEach((item, i) =>
+        check(schema.items, item, `${path}[${i}]`, errors, warnings),
+      );
+      return;
+    case "union": {
+      // The option for this kind of value (string, object, ...)
+      const option = schema.of.find((o) =>
+        o.type === "object"
+          ? isPlainObject(value)
+          : o.type === "array"
+            ? Array.isArray(value)
+            : typeof value === o.type,
+      );
+      if (option) check(option, value, path, errors, warnings);
+      else errors.push(`${path} must be ${schema.hint}`);
+      return;
+    }
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object (got ${describe(value)})`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined)
+          errors.push(`${path}.${key} is required`);
+      }
+      for (const [key, item] of Object.entries(record)) {
+        if (item === undefined) continue;
+        const itemSchema = schema.properties?.[key] ?? schema.values;
+        if (itemSchema) {
+          check(itemSchema, item, `${path}.${key}`, errors, warnings);
+        } else {
+          warnings.push(`${path}.${key} is not a known setting`);
+        }
+      }
+      return;
+    }
+  }
+}
+
+// Rules spanning several settings
+function checkCombinations(config: Config, errors: string[]) {
+  const { minSeconds = 30, maxSeconds = 90 } = config.selection ?? {};
+  if (minSeconds > maxSeconds) {
+    errors.push("selection.minSeconds must not be more than maxSeconds");
+  }
+  const windows = config.analyzer?.windows;
+  if ((windows?.overlapSeconds ?? 30) >= (windows?.windowSeconds ?? 600)) {
+    errors.push(
+      "analyzer.windows.overlapSeconds must be shorter than windowSeconds",
+    );
+  }
+  // Credentials aren't checked here: render-only commands run without
+  // them. The analyzer and the publishers check theirs when created.
+  for (const destination of destinationsFor(config)) {
+    if (destination === "folder" && !config.publish?.folder?.path) {
+      errors.push("publishing to folder needs publish.folder.path");
+    } else if (destination === "s3" && !config.publish?.s3?.bucket) {
+      errors.push("publishing to s3 needs publish.s3.bucket");
+    }
+  }
+
+  const provider = config.analyzer?.provider ?? "gemini";
+  if (provider === "local" && !config.analyzer?.local) {
+    errors.push("the local analyzer needs an analyzer.local section");
+  }
+
+  config.notifications?.forEach((notifier, i) => {
+    if (notifier.type === "command" ? !notifier.command : !notifier.url) {
+      errors.push(
+        `notifications[${i}] (${notifier.type}) needs ${notifier.type === "command" ? "command" : "url"}`,
+      );
+    }
+  });
+}
+
+// --- LOADING ---
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Objects are merged key by key; anything else in `override` replaces
+function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge(merged[key], value);
+  }
+  return merged as T;
+}
+
+function getPath(target: Record<string, any>, path: string): unknown {
+  return path.split(".").reduce<any>((node, key) => node?.[key], target);
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let node = target;
+  for (const key of keys) {
+    if (!isPlainObject(node[key])) node[key] = {};
+    node = node[key];
+  }
+  node[last] = value;
+}
+
+// Reads, fills in and validates the config. Throws a ConfigError listing
+// every problem at once.
+export async function loadConfig(path: string = CONFIG_PATH): Promise<Config> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, "utf-8"));
+  } catch (error: any) {
+    throw new ConfigError(
+      [
+        error.code === "ENOENT"
+          ? `${path} not found; copy config.example.json to start`
+          : `not valid JSON: ${error.message}`,
+      ],
+      path,
+    );
+  }
+  if (!isPlainObject(raw)) {
+    throw new ConfigError(["the file must contain a JSON object"], path);
+  }
+
+  for (const [variable, secretPath] of SECRET_ENV) {
+    const value = process.env[variable];
+    if (value) setPath(raw, secretPath, value);
+  }
+
+  const config = deepMerge(DEFAULTS, raw) as unknown as Config;
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  check(CONFIG_SCHEMA, config, "config", errors, warnings);
+  if (errors.length === 0) checkCombinations(config, errors);
+
+  // "config.render.crf" reads better as "render.crf"
+  const strip = (message: string) => message.replace(/^config\./, "");
+  warnings.forEach((warning) => console.log(`⚠️ [CONFIG] ${strip(warning)}`));
+  if (errors.length > 0) throw new ConfigError(errors.map(strip), path);
+
+  return config;
+}
+
+// Config for one clip: the global settings with the overrides of the watch
+// folder the clip is in (the deepest one when folders are nested)
+export function configFor(config: Config, filePath: string): Config {
+  const file = resolve(filePath);
+  const folder = (config.watch?.paths ?? [])
+    .filter((entry): entry is WatchFolder => typeof entry !== "string")
+    .filter((entry) => file.startsWith(resolve(entry.path) + sep))
+    .sort((a, b) => resolve(b.path).length - resolve(a.path).length)[0];
+
+  return folder?.overrides ? deepMerge(config, folder.overrides) : config;
+}
+
+// Re-reads the config when the file changes and applies the new settings
+// to `config` in place, so everything holding it sees them. Secrets and
+// startup-only settings keep their current values; an invalid file is
+// reported and ignored.
+export function watchConfig(config: Config, path: string = CONFIG_PATH) {
+  watchFile(path, { interval: 2000 }, async (current, previous) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+
+    let next: Config;
+    try {
+      next = await loadConfig(path);
+    } catch (error: any) {
+      console.error(`⚠️ [CONFIG] Not reloaded. ${error.message}`);
+      return;
+    }
+
+    for (const [, secretPath] of SECRET_ENV) {
+      const value = getPath(config, secretPath);
+      if (getPath(next, secretPath) === value) continue;
+      console.log(`⚠️ [CONFIG] ${secretPath} changed; restart to apply it.`);
+      setPath(next, secretPath, value);
+    }
+    for (const path of RESTART_SETTINGS) {
+      const value = restartValue(config, path);
+      if (JSON.stringify(restartValue(next, path)) === JSON.stringify(value)) {
+        continue;
+      }
+      console.log(`⚠️ [CONFIG] ${path} changed; restart to apply it.`);
+      setPath(next, path, getPath(config, path));
+    }
+
+    const live = config as unknown as Record<string, unknown>;
+    const changed: string[] = [];
+    const keys = new Set([...Object.keys(live), ...Object.keys(next)]);
+    for (const key of keys) {
+      const value = (next as unknown as Record<string, unknown>)[key];
+      if (JSON.stringify(value) === JSON.stringify(live[key])) continue;
+
+      live[key] = value;
+      changed.push(key);
+    }
+
+    if (changed.length > 0) {
+      console.log(`🔧 [CONFIG] Reloaded: ${changed.join(", ")}`);
+    }
+  });
+}
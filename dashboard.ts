@@ -0,0 +1,198 @@
+import { join } from "node:path";
+import type { BunFile } from "bun";
+import { validateAnalysis } from "./analysis-validator";
+import { probeDuration } from "./media";
+import { configFor } from "./config";
+import {
+  renderProfileFor,
+  resetStages,
+  selectForMontage,
+  sourcePathFor,
+  type PipelineContext,
+} from "./pipeline";
+
+export interface DashboardOptions {
+  port?: number;
+  // Interface to listen on. The dashboard has no login: keep it local
+  // unless the network is trusted.
+  host?: string;
+  // Puts a clip on the bot's queue (render + upload after approval)
+  enqueue: (filename: string) => void;
+}
+
+const PAGE_PATH = join(import.meta.dir, "dashboard.html");
+
+// Serves `file`, honouring a single `Range: bytes=` request so the
+// browser can seek in long recordings
+function serveFile(req: Request, file: BunFile): Response {
+  const size = file.size;
+  const range = req.headers.get("range")?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!range || (!range[1] && !range[2])) {
+    return new Response(file, { headers: { "Accept-Ranges": "bytes" } });
+  }
+
+  // "bytes=-N" asks for the last N bytes
+  const start = range[1]
+    ? Number(range[1])
+    : Math.max(size - Number(range[2]), 0);
+  const end =
+    range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+  if (start >= size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { "Content-Range": `bytes */${size}` },
+    });
+  }
+
+  return new Response(file.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Accept-Ranges": "bytes",
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+      "Content-Type": file.type,
+    },
+  });
+}
+
+// Changes must come from the dashboard page itself. A JSON content type
+// can't be sent cross-site without a CORS preflight (which is never
+// allowed), and browsers name the page that sent the request in `Origin`.
+function isSameOrigin(req: Request): boolean {
+  const origin = req.headers.get("origin");
+  if (origin && origin !== `http://${req.headers.get("host")}`) return false;
+  return (
+    req.headers.get("content-type")?.split(";")[0]?.trim() ===
+    "application/json"
+  );
+}
+
+function forbidden(): Response {
+  return Response.json(
+    { errors: ["Changes are only accepted from the dashboard"] },
+    { status: 403 },
+  );
+}
+
+export function startDashboard(
+  ctx: PipelineContext,
+  options: DashboardOptions,
+) {
+  const { config, lock } = ctx;
+
+  const clipFile = (name: string) =>
+    sourcePathFor(config, name, lock.get(name));
+  // Compilations aren't reviewed here: their ranges come from several
+  // source clips, and they are rendered by `compile`
+  const reviewable = (name: string) => {
+    const state = lock.get(name);
+    return state && !state.sources ? state : undefined;
+  };
+
+  const server = Bun.serve({
+    port: options.port ?? 3000,
+    hostname: options.host ?? "127.0.0.1",
+    routes: {
+      "/": () => new Response(Bun.file(PAGE_PATH)),
+
+      "/api/clips": () =>
+        Response.json(
+          lock
+            .entries()
+            .filter(([, state]) => !state.sources)
+            .map(([name, state]) => ({
+              name,
+              status: state.status,
+              title: state.geminiAnalysis?.title,
+              highlights: state.geminiAnalysis?.highlights.length ?? 0,
+              lastUpdated: state.lastUpdated,
+            })),
+        ),
+
+      "/api/clips/:name": {
+        GET: (req) => {
+          const state = reviewable(req.params.name);
+          if (!state) return new Response("Not found", { status: 404 });
+          return Response.json(state);
+        },
+
+        // Saves edited highlights and title. The clip goes back to review
+        // and any render or upload of the old highlights is forgotten; the
+        // montage selection is made again for the preview.
+        PUT: async (req) => {
+          if (!isSameOrigin(req)) return forbidden();
+          const { name } = req.params;
+          if (!reviewable(name))
+            return new Response("Not found", { status: 404 });
+
+          const duration = await probeDuration(clipFile(name));
+          const { result, errors } = validateAnalysis(
+            await req.json(),
+            duration,
+          );
+          if (!result) return Response.json({ errors }, { status: 400 });
+
+          resetStages(lock, name, "render");
+          lock.update(name, {
+            geminiAnalysis: result,
+            approvedAt: undefined,
+            status: "AWAITING_REVIEW",
+          });
+          const clipCtx = { ...ctx, config: configFor(config, clipFile(name)) };
+          selectForMontage(
+            clipCtx,
+            name,
+            result,
+            renderProfileFor(clipCtx, name, lock.get(name)),
+          );
+          console.log(`📝 [REVIEW] Highlights edited: ${name}`);
+          return Response.json(lock.get(name));
+        },
+      },
+
+      // Approves the current highlights and queues render + upload
+      "/api/clips/:name/approve": {
+        POST: (req) => {
+          if (!isSameOrigin(req)) return forbidden();
+          const { name } = req.params;
+          const state = reviewable(name);
+          if (!state) return new Response("Not found", { status: 404 });
+          if (!state.geminiAnalysis?.highlights.length) {
+            return Response.json(
+              { errors: ["Nothing to approve: no highlights"] },
+              { status: 400 },
+            );
+          }
+
+          lock.update(name, {
+            approvedAt: new Date().toISOString(),
+            status: "PENDING",
+          });
+          console.log(`✅ [REVIEW] Approved: ${name}`);
+          options.enqueue(name);
+          return Response.json(lock.get(name));
+        },
+      },
+
+      // Source clip, or the rendered montage with ?render
+      "/api/clips/:name/video": async (req) => {
+        const { name } = req.params;
+        const state = reviewable(name);
+        if (!state) return new Response("Not found", { status: 404 });
+
+        const rendered = new URL(req.url).searchParams.has("render");
+        const path = rendered ? state.outputFilePath : clipFile(name);
+
+        const file = path ? Bun.file(path) : undefined;
+        if (!file || !(await file.exists())) {
+          return new Response("Not found", { status: 404 });
+        }
+        return serveFile(req, file);
+      },
+    },
+
+    fetch: () => new Response("Not found", { status: 404 }),
+  });
+
+  console.log(`🖥️ Review dashboard: http://${server.hostname}:${server.port}`);
+  return server;
+}
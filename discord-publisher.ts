@@ -0,0 +1,100 @@
+import { basename } from "node:path";
+import type { VideoState } from "./lock-manager";
+import type { Publisher } from "./publisher";
+import { UploadError } from "./resumable-upload";
+
+export interface DiscordPublisherOptions {
+  webhookUrl: string;
+  username?: string;
+  // Attach the video when it fits (montage first, then the vertical cut);
+  // otherwise only links are posted. Discord's limit without boosts is 10 MB.
+  attach?: boolean;
+  maxAttachmentMb?: number;
+}
+
+const DEFAULT_MAX_ATTACHMENT_MB = 10;
+// Longest message content Discord accepts
+const MAX_CONTENT_LENGTH = 2000;
+
+// Posts the clip to a Discord channel through a webhook: title, highlights,
+// links from the destinations that ran before it and, if small enough, the
+// video itself. List it after the other destinations to get their links.
+export class DiscordPublisher implements Publisher {
+  readonly name = "discord";
+
+  constructor(private options: DiscordPublisherOptions) {
+    if (!options.webhookUrl) {
+      throw new Error("'publish.discord.webhookUrl' is missing in config.json");
+    }
+  }
+
+  async publish(
+    _filename: string,
+    state: VideoState,
+  ): Promise<{ url?: string }> {
+    const analysis = state.geminiAnalysis!;
+    const links = Object.entries(state.publications ?? {})
+      .filter(([, p]) => p.status === "PUBLISHED" && p.url?.startsWith("http"))
+      .map(([name, p]) => `${name}: ${p.url}`);
+
+    // The highlights in the montage; the line is shortened so the title
+    // and links always fit
+    const highlights = state.selection?.chosen ?? analysis.highlights;
+    const title = `**${analysis.title}**`;
+    const room =
+      MAX_CONTENT_LENGTH - [title, ...links].join("\n").length - "\n".length;
+    const content = [
+      title,
+      truncate(highlights.map((h) => h.description).join(" · "), room),
+      ...links,
+    ]
+      .join("\n")
+      .slice(0, MAX_CONTENT_LENGTH);
+    const payload = { content, username: this.options.username };
+
+    const attachment = this.attachment(state);
+    let body: FormData | string;
+    if (attachment) {
+      body = new FormData();
+      body.append("payload_json", JSON.stringify(payload));
+      body.append("files[0]", Bun.file(attachment), basename(attachment));
+    } else {
+      body = JSON.stringify(payload);
+    }
+
+    console.log(`💬 [DISCORD] Posting${attachment ? " with video" : ""}...`);
+    const url = new URL(this.options.webhookUrl);
+    url.searchParams.set("wait", "true"); // Returns the created message
+    const res = await fetch(url, {
+      method: "POST",
+      headers: attachment ? {} : { "Content-Type": "application/json" },
+      body,
+    });
+
+    if (!res.ok) {
+      throw new UploadError(
+        `Discord webhook failed: ${res.status} ${await res.text()}`,
+        res.status,
+      );
+    }
+
+    const message = (await res.json()) as { attachments?: { url: string }[] };
+    return { url: message.attachments?.[0]?.url };
+  }
+
+  // First output that fits under the attachment limit
+  private attachment(state: VideoState): string | undefined {
+    if (this.options.attach === false) return undefined;
+
+    const limit =
+      (this.options.maxAttachmentMb ?? DEFAULT_MAX_ATTACHMENT_MB) * 1024 * 1024;
+    return [state.outputFilePath, state.verticalOutputPath].find(
+      (path) => path && Bun.file(path).size <= limit,
+    );
+  }
+}
+
+function truncate(text: string, max: number): string {
+  if (text.length <= max) return text;
+  return max > 0 ? `${text.slice(0, max - 1)}…` : "";
+}
@@ -0,0 +1,80 @@
+import type { Stage } from "./retry-policy";
+
+// Payload of every pipeline event, by event name
+export interface PipelineEvents {
+  "clip.detected": { filename: string; filePath: string };
+  "analysis.done": { filename: string; title: string; highlights: number };
+  "analysis.no_highlights": { filename: string };
+  "render.done": {
+    filename: string;
+    profile: string;
+    outputPath: string;
+    verticalPath?: string;
+  };
+  "upload.success": { filename: string; destination: string; url?: string };
+  "upload.failure": { filename: string; destination: string; error: string };
+  // A stage failed. `nextRetryAt` is set when it will be retried; without
+  // it the clip is FAILED / UPLOAD_FAILED until someone looks at it.
+  "clip.failed": {
+    filename: string;
+    stage: Stage;
+    error: string;
+    nextRetryAt?: string;
+  };
+}
+
+export type EventName = keyof PipelineEvents;
+
+export const EVENT_NAMES: EventName[] = [
+  "clip.detected",
+  "analysis.done",
+  "analysis.no_highlights",
+  "render.done",
+  "upload.success",
+  "upload.failure",
+  "clip.failed",
+];
+
+// What listeners receive: the payload plus its name and time
+export type PipelineEvent = {
+  [K in EventName]: { type: K; at: string } & PipelineEvents[K];
+}[EventName];
+
+type Listener = (event: PipelineEvent) => void | Promise<void>;
+
+// In-process bus between the pipeline and the notifiers. Listeners run in
+// the background; a failing listener is logged and never fails the clip.
+export class EventBus {
+  private listeners: { events?: EventName[]; listener: Listener }[] = [];
+  private pending = new Set<Promise<void>>();
+
+  // Subscribes to `events`, or to every event when omitted
+  on(listener: Listener, events?: EventName[]) {
+    this.listeners.push({ events, listener });
+  }
+
+  emit<K extends EventName>(type: K, payload: PipelineEvents[K]) {
+    const event = {
+      type,
+      at: new Date().toISOString(),
+      ...payload,
+    } as PipelineEvent;
+
+    for (const { events, listener } of this.listeners) {
+      if (events && !events.includes(type)) continue;
+
+      const job = Promise.resolve()
+        .then(() => listener(event))
+        .catch((error: any) =>
+          console.log(`⚠️ [NOTIFY] ${type} listener failed: ${error.message}`),
+        )
+        .finally(() => this.pending.delete(job));
+      this.pending.add(job);
+    }
+  }
+
+  // Waits for running listeners, e.g. before a short-lived CLI exits
+  async flush() {
+    await Promise.allSettled([...this.pending]);
+  }
+}
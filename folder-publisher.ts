@@ -0,0 +1,42 @@
+import { copyFile, mkdir } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import type { VideoState } from "./lock-manager";
+import type { Publisher } from "./publisher";
+
+export interface FolderPublisherOptions {
+  path: string; // Local folder or mounted NAS share
+  vertical?: boolean; // Also copy the vertical cut (default on)
+}
+
+// Copies the rendered outputs into a folder
+export class FolderPublisher implements Publisher {
+  readonly name = "folder";
+
+  constructor(private options: FolderPublisherOptions) {
+    if (!options.path) {
+      throw new Error("'publish.folder.path' is missing in config.json");
+    }
+  }
+
+  async publish(
+    _filename: string,
+    state: VideoState,
+  ): Promise<{ url?: string }> {
+    await mkdir(this.options.path, { recursive: true });
+
+    const files = [state.outputFilePath!];
+    if (state.verticalOutputPath && this.options.vertical !== false) {
+      files.push(state.verticalOutputPath);
+    }
+
+    for (const file of files) {
+      const target = join(this.options.path, basename(file));
+      console.log(`📁 [FOLDER] Copying to ${target}...`);
+      await copyFile(file, target);
+    }
+
+    return {
+      url: resolve(this.options.path, basename(state.outputFilePath!)),
+    };
+  }
+}
@@ -1,103 +1,272 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { GoogleAIFileManager, FileState } from "@google/generative-ai/server";
-import { readFile } from "node:fs/promises";
+import {
+  GoogleGenerativeAI,
+  SchemaType,
+  type GenerationConfig,
+  type Part,
+  type ResponseSchema,
+} from "@google/generative-ai";
+import {
+  GoogleAIFileManager,
+  FileState,
+  type FileMetadataResponse,
+} from "@google/generative-ai/server";
+import {
+  buildAnalysisPrompt,
+  buildMetadataPrompt,
+  buildTitlePrompt,
+  HIGHLIGHT_CATEGORIES,
+  parseAnalysisResponse,
+  parseMetadataResponse,
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type Analyzer,
+  type AnalyzerUsage,
+  type UsageListener,
+  type VideoMetadata,
+} from "./analyzer";
+import type { BudgetConfig } from "./budget";
+import { mimeTypeFor } from "./media";
+import { RateLimiter } from "./rate-limiter";
 
-interface Config {
-  geminiApiKey: string;
-}
+const DEFAULT_MODEL = "gemini-3-flash-preview";
 
-interface Highlight {
-  start_time: string;
-  end_time: string;
-  description: string;
-}
+// USD per million tokens (list price of the default model). Video is
+// billed as input tokens.
+const DEFAULT_PRICING = { inputPerMillion: 0.5, outputPerMillion: 3 };
 
-interface AnalysisResult {
-  title: string;
-  highlights: Highlight[];
+export interface GeminiOptions {
+  model?: string;
+  // Client-side cap shared by all workers; stay under your tier's limit
+  requestsPerMinute?: number;
+  // Prices for the cost in usage records, if not the default model's
+  pricing?: { inputPerMillion?: number; outputPerMillion?: number };
+  // Checked by the pipeline before each clip is analysed
+  budget?: BudgetConfig;
 }
 
-async function loadConfig(): Promise<Config> {
-  const configContent = await readFile("./config.json", "utf-8");
-  return JSON.parse(configContent);
-}
+// Structured output: Gemini is constrained to this shape
+const RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    title: { type: SchemaType.STRING },
+    highlights: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          start_time: {
+            type: SchemaType.STRING,
+            description: "HH:MM:SS",
+          },
+          end_time: {
+            type: SchemaType.STRING,
+            description: "HH:MM:SS",
+          },
+          description: { type: SchemaType.STRING },
+          category: {
+            type: SchemaType.STRING,
+            format: "enum",
+            enum: [...HIGHLIGHT_CATEGORIES],
+          },
+          kills: { type: SchemaType.INTEGER },
+          score: { type: SchemaType.NUMBER, description: "0 to 1" },
+        },
+        required: [
+          "start_time",
+          "end_time",
+          "description",
+          "category",
+          "kills",
+          "score",
+        ],
+      },
+    },
+  },
+  required: ["title", "highlights"],
+};
+
+const METADATA_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    description: { type: SchemaType.STRING },
+    tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+  },
+  required: ["description", "tags"],
+};
+
+export class GeminiAnalyzer implements Analyzer {
+  readonly name = "gemini";
 
-export async function analyzeClip(filePath: string): Promise<AnalysisResult> {
-  const config = await loadConfig();
-  if (!config.geminiApiKey) {
-    throw new Error("Gemini API Key is missing in config.json");
+  // Uploaded files are reused across repair attempts of the same clip
+  private uploads = new Map<string, FileMetadataResponse>();
+  private limiter?: RateLimiter;
+
+  constructor(
+    private apiKey: string,
+    private options: GeminiOptions = {},
+  ) {
+    if (!apiKey) {
+      throw new Error(
+        "Gemini API Key is missing (geminiApiKey in config.json or GEMINI_API_KEY)",
+      );
+    }
+    if (options.requestsPerMinute) {
+      this.limiter = new RateLimiter(options.requestsPerMinute, "GEMINI");
+    }
   }
 
-  const genAI = new GoogleGenerativeAI(config.geminiApiKey);
-  const fileManager = new GoogleAIFileManager(config.geminiApiKey);
+  async analyze(
+    filePath: string,
+    options: AnalyzeOptions = {},
+  ): Promise<AnalysisResult> {
+    const file = await this.upload(filePath);
+    const videoDuration = parseFloat(file.videoMetadata?.videoDuration ?? "");
 
-  console.log(`Uploading file: ${filePath}`);
-  const uploadResponse = await fileManager.uploadFile(filePath, {
-    mimeType: "video/mp4",
-    displayName: "Valorant Clip",
-  });
+    const responseText = await this.generate(
+      "analysis",
+      {
+        temperature: 0.6,
+        responseMimeType: "application/json",
+        responseSchema: RESPONSE_SCHEMA,
+      },
+      [
+        {
+          fileData: {
+            mimeType: file.mimeType,
+            fileUri: file.uri,
+          },
+        },
+        { text: buildAnalysisPrompt(options) },
+      ],
+      options.onUsage,
+      Number.isNaN(videoDuration) ? options.clipDuration : videoDuration,
+    );
+    console.log("Raw Gemini Response:", responseText);
 
-  const fileUri = uploadResponse.file.uri;
-  console.log(`Uploaded file as: ${fileUri}`);
+    return parseAnalysisResponse(responseText);
+  }
 
-  // Wait for file to be processed
-  let file = await fileManager.getFile(uploadResponse.file.name);
-  while (file.state === FileState.PROCESSING) {
-    process.stdout.write(".");
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    file = await fileManager.getFile(uploadResponse.file.name);
+  async generateTitle(
+    titles: string[],
+    descriptions: string[],
+    onUsage?: UsageListener,
+  ): Promise<string> {
+    const responseText = await this.generate(
+      "title",
+      { temperature: 0.8 },
+      buildTitlePrompt(titles, descriptions),
+      onUsage,
+    );
+    return responseText.trim().replace(/^"|"$/g, "");
   }
 
-  if (file.state === FileState.FAILED) {
-    throw new Error("Video processing failed.");
+  async generateMetadata(
+    analysis: AnalysisResult,
+    onUsage?: UsageListener,
+  ): Promise<VideoMetadata> {
+    const responseText = await this.generate(
+      "metadata",
+      {
+        temperature: 0.8,
+        responseMimeType: "application/json",
+        responseSchema: METADATA_SCHEMA,
+      },
+      buildMetadataPrompt(analysis),
+      onUsage,
+    );
+    return parseMetadataResponse(responseText);
   }
 
-  console.log("\nFile processed successfully. Analyzing...");
+  // Deletes the uploaded video instead of leaving it in the File API
+  // until it expires (48 hours)
+  async release(filePath: string): Promise<void> {
+    const file = this.uploads.get(filePath);
+    if (!file) return;
+    this.uploads.delete(filePath);
+    await this.deleteUpload(file.name);
+  }
 
-  const model = genAI.getGenerativeModel({
-    model: "gemini-3-flash-preview",
-    generationConfig: {
-      temperature: 0.6,
-    },
-  });
-
-  const prompt = `
-  Analyze this video clip of Valorant gameplay.
-  Identify highlight moments based on:
-  1. Player kills: Look for the kill feed/icon feedback at the bottom middle of the screen.
-  2. Audio excitement: Screams, laughs, and loud reactions.
-
-  Return a JSON object with:
-  - 'title': A YouTube title for the clip based on the highlights. Avoid using emojis and names (ex: agents, maps and positions)
-  - 'highlights': A list of highlight objects. (If highlights are close (5 to 7s) try to put them together) Each highlight should have:
-    - 'start_time': The start timestamp in HH:MM:SS format (e.g., "00:00:12").
-    - 'end_time': The end timestamp in HH:MM:SS format (e.g., "00:00:15").
-    - 'description': A brief description of the highlight (e.g., "Triple Kill", "Funny Reaction").
-
-  Return ONLY the JSON object, strictly valid JSON. Do not use Markdown code blocks.
-  `;
-  const result = await model.generateContent([
-    {
-      fileData: {
-        mimeType: file.mimeType,
-        fileUri: file.uri,
-      },
-    },
-    { text: prompt },
-  ]);
-
-  const responseText = result.response.text();
-  console.log("Raw Gemini Response:", responseText);
-
-  try {
-    // Attempt to clean markdown if present
-    const jsonString = responseText
-      .replace(/```json/g, "")
-      .replace(/```/g, "")
-      .trim();
-    return JSON.parse(jsonString) as AnalysisResult;
-  } catch (error) {
-    console.error("Failed to parse JSON response:", error);
-    throw error;
+  // Every model call goes through here: rate limit, call, usage report
+  private async generate(
+    call: AnalyzerUsage["call"],
+    generationConfig: GenerationConfig,
+    request: string | Part[],
+    onUsage?: UsageListener,
+    videoSeconds?: number,
+  ): Promise<string> {
+    const modelName = this.options.model ?? DEFAULT_MODEL;
+    const model = new GoogleGenerativeAI(this.apiKey).getGenerativeModel({
+      model: modelName,
+      generationConfig,
+    });
+
+    await this.limiter?.acquire();
+    const result = await model.generateContent(request);
+
+    const metadata = result.response.usageMetadata;
+    if (metadata) {
+      const pricing = { ...DEFAULT_PRICING, ...this.options.pricing };
+      const usage: AnalyzerUsage = {
+        call,
+        model: modelName,
+        inputTokens: metadata.promptTokenCount,
+        outputTokens: metadata.candidatesTokenCount,
+        videoSeconds,
+        costUsd:
+          (metadata.promptTokenCount * pricing.inputPerMillion +
+            metadata.candidatesTokenCount * pricing.outputPerMillion) /
+          1_000_000,
+        at: new Date().toISOString(),
+      };
+      console.log(
+        `📊 [GEMINI] ${call}: ${usage.inputTokens} in / ${usage.outputTokens} out tokens ($${usage.costUsd.toFixed(4)})`,
+      );
+      onUsage?.(usage);
+    }
+
+    return result.response.text();
+  }
+
+  private async upload(filePath: string): Promise<FileMetadataResponse> {
+    const cached = this.uploads.get(filePath);
+    if (cached) return cached;
+
+    const fileManager = new GoogleAIFileManager(this.apiKey);
+
+    console.log(`Uploading file: ${filePath}`);
+    const uploadResponse = await fileManager.uploadFile(filePath, {
+      mimeType: mimeTypeFor(filePath),
+      displayName: "Valorant Clip",
+    });
+
+    const fileUri = uploadResponse.file.uri;
+    console.log(`Uploaded file as: ${fileUri}`);
+
+    // Wait for file to be processed
+    let file = await fileManager.getFile(uploadResponse.file.name);
+    while (file.state === FileState.PROCESSING) {
+      process.stdout.write(".");
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      file = await fileManager.getFile(uploadResponse.file.name);
+    }
+
+    if (file.state === FileState.FAILED) {
+      await this.deleteUpload(file.name);
+      throw new Error("Video processing failed.");
+    }
+
+    console.log("\nFile processed successfully. Analyzing...");
+    this.uploads.set(filePath, file);
+    return file;
+  }
+
+  private async deleteUpload(name: string) {
+    try {
+      await new GoogleAIFileManager(this.apiKey).deleteFile(name);
+      console.log(`🗑️ [GEMINI] Deleted uploaded file ${name}`);
+    } catch (error: any) {
+      // Not fatal: the File API expires it anyway
+      console.log(`⚠️ [GEMINI] Couldn't delete ${name}: ${error.message}`);
+    }
   }
 }
@@ -0,0 +1,85 @@
+import type { Highlight } from "./analyzer";
+import { scoreOf, timeToSeconds } from "./highlights";
+import type { RenderProfile } from "./render-profiles";
+
+export interface SelectionOptions {
+  // Pick the highlights for the montage instead of using all of them
+  enabled?: boolean;
+  // Montage length to aim for: highlights with their buffers, minus the
+  // transitions (title card and outro not counted)
+  minSeconds?: number;
+  maxSeconds?: number;
+  // Once the montage is minSeconds long, weaker highlights are left out
+  minScore?: number;
+  // Put the best highlight last instead of in recording order
+  endOnBest?: boolean;
+}
+
+// What went into the montage and what didn't, kept on the entry
+export interface Selection {
+  chosen: Highlight[]; // In montage order
+  dropped: Highlight[];
+  seconds: number; // Expected montage length
+}
+
+const DEFAULTS = {
+  minSeconds: 30,
+  maxSeconds: 90,
+  minScore: 0.5,
+  endOnBest: false,
+};
+
+// Best-scored highlights first, as long as they fit in maxSeconds, then
+// back in recording order. A single highlight longer than maxSeconds is
+// used alone rather than rendering nothing.
+export function selectHighlights(
+  highlights: Highlight[],
+  options: SelectionOptions = {},
+  profile: Pick<RenderProfile, "bufferSeconds" | "transitionDuration">,
+): Selection {
+  const o = { ...DEFAULTS, ...options };
+  const ranked = highlights
+    .map((highlight, index) => ({
+      highlight,
+      index,
+      score: scoreOf(highlight),
+      seconds:
+        timeToSeconds(highlight.end_time) -
+        timeToSeconds(highlight.start_time) +
+        2 * profile.bufferSeconds,
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const chosen: typeof ranked = [];
+  let total = 0;
+  for (const item of ranked) {
+    const added =
+      chosen.length === 0
+        ? item.seconds
+        : item.seconds - profile.transitionDuration;
+    if (total + added > o.maxSeconds) continue;
+    if (total >= o.minSeconds && item.score < o.minScore) continue;
+    chosen.push(item);
+    total += added;
+  }
+  if (chosen.length === 0 && ranked[0]) {
+    chosen.push(ranked[0]);
+    total = ranked[0].seconds;
+  }
+
+  chosen.sort((a, b) => a.index - b.index);
+  if (o.endOnBest && chosen.length > 1) {
+    const best = chosen.reduce((a, b) => (b.score > a.score ? b : a));
+    chosen.splice(chosen.indexOf(best), 1);
+    chosen.push(best);
+  }
+
+  return {
+    chosen: chosen.map((item) => item.highlight),
+    dropped: ranked
+      .filter((item) => !chosen.includes(item))
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.highlight),
+    seconds: Math.round(total * 10) / 10,
+  };
+}
@@ -0,0 +1,86 @@
+import type { Highlight, HighlightCategory } from "./analyzer";
+
+// Score of highlights nothing has rated, by category
+const CATEGORY_SCORES: Record<HighlightCategory, number> = {
+  ace: 0.95,
+  clutch: 0.85,
+  multikill: 0.75,
+  reaction: 0.6,
+  kill: 0.5,
+  other: 0.4,
+};
+const DEFAULT_SCORE = 0.5;
+
+// 0..1, higher is better: the highlight's score, or a neutral one
+export function scoreOf(highlight: Highlight): number {
+  return (
+    highlight.score ??
+    (highlight.category ? CATEGORY_SCORES[highlight.category] : DEFAULT_SCORE)
+  );
+}
+
+// Accepts "HH:MM:SS", "MM:SS", "SS" (each optionally with fractional
+// seconds, e.g. "00:01:02.500") or a plain number of seconds.
+// Returns NaN when the value is not a timestamp.
+export function timeToSeconds(time: string | number): number {
+  if (typeof time === "number") {
+    return Number.isFinite(time) ? time : NaN;
+  }
+
+  const trimmed = time.trim();
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(trimmed)) {
+    return NaN;
+  }
+
+  const parts = trimmed.split(":").map(Number);
+  if (parts.length === 3) {
+    return (parts[0] ?? 0) * 3600 + (parts[1] ?? 0) * 60 + (parts[2] ?? 0);
+  } else if (parts.length === 2) {
+    return (parts[0] ?? 0) * 60 + (parts[1] ?? 0);
+  }
+  return parts[0] ?? 0;
+}
+
+// Formats seconds as "HH:MM:SS", keeping milliseconds only when needed.
+export function secondsToTime(totalSeconds: number): string {
+  const ms = Math.round(totalSeconds * 1000);
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  const millis = ms % 1000;
+
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const base = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+  return millis > 0 ? `${base}.${String(millis).padStart(3, "0")}` : base;
+}
+
+// Sorts highlights by start time and merges ranges that overlap,
+// joining their descriptions and keeping the best score and kill count.
+export function mergeOverlapping(highlights: Highlight[]): Highlight[] {
+  const sorted = [...highlights].sort(
+    (a, b) => timeToSeconds(a.start_time) - timeToSeconds(b.start_time),
+  );
+
+  const merged: Highlight[] = [];
+  for (const h of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && timeToSeconds(h.start_time) <= timeToSeconds(last.end_time)) {
+      if (timeToSeconds(h.end_time) > timeToSeconds(last.end_time)) {
+        last.end_time = h.end_time;
+      }
+      if (h.description && !last.description.includes(h.description)) {
+        last.description = `${last.description} + ${h.description}`;
+      }
+      if (h.score !== undefined) {
+        last.score = Math.max(last.score ?? 0, h.score);
+      }
+      if (h.kills !== undefined) {
+        last.kills = Math.max(last.kills ?? 0, h.kills);
+      }
+      last.category ??= h.category;
+    } else {
+      merged.push({ ...h });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,317 @@
+import { spawn } from "node:child_process";
+import type {
+  AnalysisResult,
+  AnalyzeOptions,
+  Analyzer,
+  Highlight,
+} from "./analyzer";
+import { mergeOverlapping, secondsToTime, timeToSeconds } from "./highlights";
+
+export interface KillFeedOptions {
+  // Frames sampled per second (higher = more accurate, slower)
+  fps?: number;
+  // Kill banner area as fractions of the frame (0..1)
+  region?: { x: number; y: number; width: number; height: number };
+  // Colour of the kill icon (RGB) and max distance to count a pixel as a match
+  color?: [number, number, number];
+  colorTolerance?: number;
+  // Optional PNG/JPG of the kill icon crop; enables template matching
+  templatePath?: string;
+  // Share of icon-coloured pixels (0..1) a frame must reach to count as
+  // "banner visible"
+  threshold?: number;
+  // Same with templatePath: similarity to the template (0..1). Frames
+  // without the banner still score around 0.7, so keep it high.
+  templateThreshold?: number;
+  // Kills closer than this are grouped into one highlight (Double Kill, ...)
+  comboWindowSeconds?: number;
+  preRollSeconds?: number;
+  postRollSeconds?: number;
+  // Cross-check and refine the analyzer's highlights with detected kills
+  refine?: boolean;
+}
+
+const DEFAULTS = {
+  fps: 10,
+  region: { x: 0.44, y: 0.7, width: 0.12, height: 0.16 },
+  color: [255, 70, 85] as [number, number, number], // Valorant red
+  colorTolerance: 70,
+  threshold: 0.03,
+  templateThreshold: 0.85,
+  comboWindowSeconds: 6,
+  preRollSeconds: 3,
+  postRollSeconds: 1.5,
+};
+
+// Frames are scaled down to this size before matching
+const SAMPLE_WIDTH = 96;
+const SAMPLE_HEIGHT = 64;
+const FRAME_BYTES = SAMPLE_WIDTH * SAMPLE_HEIGHT * 3;
+
+// The banner flickers while animating; hits this close belong to one kill
+const SAME_KILL_GAP_SECONDS = 0.6;
+
+const KILL_NAMES = ["Kill", "Double Kill", "Triple Kill", "Quadra Kill", "Ace"];
+
+function cropFilter(region: KillFeedOptions["region"] & {}): string {
+  return `crop=iw*${region.width}:ih*${region.height}:iw*${region.x}:ih*${region.y}`;
+}
+
+// Runs ffmpeg and hands every decoded rgb24 frame to `onFrame`.
+function decodeFrames(
+  args: string[],
+  onFrame: (frame: Buffer) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", args);
+
+    let pending = Buffer.alloc(0);
+    ffmpeg.stdout.on("data", (chunk: Buffer) => {
+      pending = Buffer.concat([pending, chunk]);
+      while (pending.length >= FRAME_BYTES) {
+        onFrame(pending.subarray(0, FRAME_BYTES));
+        pending = pending.subarray(FRAME_BYTES);
+      }
+    });
+
+    let stderr = "";
+    ffmpeg.stderr.on("data", (d) => (stderr += d.toString()));
+
+    ffmpeg.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        console.error("FFmpeg Error:", stderr);
+        reject(new Error(`ffmpeg exited with code ${code}`));
+      }
+    });
+
+    ffmpeg.on("error", (err) => {
+      reject(err);
+    });
+  });
+}
+
+async function loadTemplate(templatePath: string): Promise<Buffer> {
+  let template: Buffer | undefined;
+  await decodeFrames(
+    [
+      "-v",
+      "error",
+      "-i",
+      templatePath,
+      "-vf",
+      `scale=${SAMPLE_WIDTH}:${SAMPLE_HEIGHT}`,
+      "-frames:v",
+      "1",
+      "-f",
+      "rawvideo",
+      "-pix_fmt",
+      "rgb24",
+      "pipe:1",
+    ],
+    (frame) => (template = Buffer.from(frame)),
+  );
+  if (!template) {
+    throw new Error(`Could not decode kill feed template: ${templatePath}`);
+  }
+  return template;
+}
+
+// Share of pixels close to the kill icon colour
+function colorScore(
+  frame: Buffer,
+  color: [number, number, number],
+  tolerance: number,
+): number {
+  const maxDistSq = tolerance * tolerance;
+  let matches = 0;
+  for (let i = 0; i < frame.length; i += 3) {
+    const dr = (frame[i] ?? 0) - color[0];
+    const dg = (frame[i + 1] ?? 0) - color[1];
+    const db = (frame[i + 2] ?? 0) - color[2];
+    if (dr * dr + dg * dg + db * db <= maxDistSq) matches++;
+  }
+  return matches / (frame.length / 3);
+}
+
+// 1 - mean absolute difference against the template, in 0..1
+function templateScore(frame: Buffer, template: Buffer): number {
+  let diff = 0;
+  for (let i = 0; i < frame.length; i++) {
+    diff += Math.abs((frame[i] ?? 0) - (template[i] ?? 0));
+  }
+  return 1 - diff / (frame.length * 255);
+}
+
+// Samples the kill banner region and returns the timestamps (seconds) at
+// which a new kill banner appears.
+export async function detectKillTimes(
+  filePath: string,
+  options: KillFeedOptions = {},
+): Promise<number[]> {
+  const fps = options.fps ?? DEFAULTS.fps;
+  const region = options.region ?? DEFAULTS.region;
+  const color = options.color ?? DEFAULTS.color;
+  const tolerance = options.colorTolerance ?? DEFAULTS.colorTolerance;
+  const template = options.templatePath
+    ? await loadTemplate(options.templatePath)
+    : undefined;
+  const threshold = template
+    ? (options.templateThreshold ?? DEFAULTS.templateThreshold)
+    : (options.threshold ?? DEFAULTS.threshold);
+
+  const killTimes: number[] = [];
+  let frameIndex = 0;
+  let lastHitTime = -Infinity;
+
+  await decodeFrames(
+    [
+      "-v",
+      "error",
+      "-i",
+      filePath,
+      "-an",
+      "-vf",
+      `fps=${fps},${cropFilter(region)},scale=${SAMPLE_WIDTH}:${SAMPLE_HEIGHT}`,
+      "-f",
+      "rawvideo",
+      "-pix_fmt",
+      "rgb24",
+      "pipe:1",
+    ],
+    (frame) => {
+      const time = frameIndex / fps;
+      frameIndex++;
+
+      const score = template
+        ? templateScore(frame, template)
+        : colorScore(frame, color, tolerance);
+      if (score < threshold) return;
+
+      // Rising edge: banner was not visible on the previous frames
+      if (time - lastHitTime > SAME_KILL_GAP_SECONDS) {
+        killTimes.push(time);
+      }
+      lastHitTime = time;
+    },
+  );
+
+  return killTimes;
+}
+
+// Groups kill times into highlights ("Double Kill", ...) with pre/post roll.
+export function killTimesToHighlights(
+  killTimes: number[],
+  options: KillFeedOptions = {},
+): Highlight[] {
+  const comboWindow = options.comboWindowSeconds ?? DEFAULTS.comboWindowSeconds;
+  const preRoll = options.preRollSeconds ?? DEFAULTS.preRollSeconds;
+  const postRoll = options.postRollSeconds ?? DEFAULTS.postRollSeconds;
+
+  const groups: number[][] = [];
+  for (const time of killTimes) {
+    const group = groups[groups.length - 1];
+    const last = group?.[group.length - 1];
+    if (group && last !== undefined && time - last <= comboWindow) {
+      group.push(time);
+    } else {
+      groups.push([time]);
+    }
+  }
+
+  return groups.map((group) => {
+    const first = group[0] ?? 0;
+    const last = group[group.length - 1] ?? first;
+    const name =
+      KILL_NAMES[Math.min(group.length, KILL_NAMES.length) - 1] ?? "Kill";
+    return {
+      start_time: secondsToTime(Math.max(0, first - preRoll)),
+      end_time: secondsToTime(last + postRoll),
+      description:
+        group.length > KILL_NAMES.length ? `${group.length} Kills` : name,
+      category:
+        group.length >= 5 ? "ace" : group.length > 1 ? "multikill" : "kill",
+      kills: group.length,
+    };
+  });
+}
+
+export async function detectKills(
+  filePath: string,
+  options: KillFeedOptions = {},
+): Promise<Highlight[]> {
+  const killTimes = await detectKillTimes(filePath, options);
+  return killTimesToHighlights(killTimes, options);
+}
+
+// Cross-checks model highlights against detected kills: matching highlights
+// are widened to cover the detected kills (never cut down, so a long clutch
+// keeps its build-up), kills the model missed are added, and unmatched
+// model highlights (e.g. reactions) are kept as they are.
+export function refineWithKillFeed(
+  analysis: AnalysisResult,
+  detected: Highlight[],
+): AnalysisResult {
+  const used = new Set<Highlight>();
+
+  const refined = analysis.highlights.map((h) => {
+    const start = timeToSeconds(h.start_time);
+    const end = timeToSeconds(h.end_time);
+    const matches = detected.filter(
+      (d) =>
+        timeToSeconds(d.start_time) <= end &&
+        timeToSeconds(d.end_time) >= start,
+    );
+    if (matches.length === 0) return h;
+
+    matches.forEach((m) => used.add(m));
+    return {
+      ...h,
+      start_time: secondsToTime(
+        Math.min(start, ...matches.map((m) => timeToSeconds(m.start_time))),
+      ),
+      end_time: secondsToTime(
+        Math.max(end, ...matches.map((m) => timeToSeconds(m.end_time))),
+      ),
+    };
+  });
+
+  const missed = detected.filter((d) => !used.has(d));
+  console.log(
+    `🎯 [KILLFEED] ${used.size}/${detected.length} detected kills confirmed by the model, ${missed.length} added.`,
+  );
+
+  return {
+    ...analysis,
+    highlights: mergeOverlapping([...refined, ...missed]),
+  };
+}
+
+// Analyzer backend that needs no LLM at all: highlights come from the kill
+// feed detector and the title from the best multi-kill.
+export class KillFeedAnalyzer implements Analyzer {
+  readonly name = "killfeed";
+
+  constructor(private options: KillFeedOptions = {}) {}
+
+  async analyze(
+    filePath: string,
+    _options: AnalyzeOptions = {},
+  ): Promise<AnalysisResult> {
+    const highlights = await detectKills(filePath, this.options);
+    const best = highlights.reduce<Highlight | undefined>(
+      (acc, h) =>
+        !acc ||
+        KILL_NAMES.indexOf(h.description) > KILL_NAMES.indexOf(acc.description)
+          ? h
+          : acc,
+      undefined,
+    );
+
+    return {
+      title: best ? `${best.description} Highlights` : "Valorant Highlights",
+      highlights,
+    };
+  }
+}
@@ -0,0 +1,212 @@
+import { afterAll, beforeAll, beforeEach, expect, test } from "bun:test";
+import { chmod, mkdir, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import { ANALYSIS_JSON_SCHEMA, METADATA_JSON_SCHEMA } from "./analyzer";
+import { createAnalyzer } from "./analyzer-factory";
+import type { Config } from "./config";
+import { LocalAnalyzer, type LocalAnalyzerOptions } from "./local-analyzer";
+import { LockManager } from "./lock-manager";
+import { analyzeClip } from "./pipeline";
+
+// OpenAI-compatible stand-in: records the requests and answers with the
+// next queued reply (or an error status)
+const requests: { path: string; headers: Headers; body: any }[] = [];
+let replies: (string | { status: number; text: string })[] = [];
+let server: ReturnType<typeof Bun.serve>;
+
+let dir: string;
+let clipPath: string;
+const path = process.env.PATH;
+
+beforeAll(async () => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      requests.push({
+        path: new URL(req.url).pathname,
+        headers: req.headers,
+        body: await req.json(),
+      });
+      const reply = replies.shift() ?? "";
+      if (typeof reply !== "string") {
+        return new Response(reply.text, { status: reply.status });
+      }
+      return Response.json({
+        choices: [{ message: { role: "assistant", content: reply } }],
+      });
+    },
+  });
+
+  dir = await mkdtemp(join(tmpdir(), "local-analyzer-"));
+  clipPath = join(dir, "clip.mkv");
+  await Bun.write(clipPath, "not really a video");
+
+  // ffprobe stand-in: every clip is 30 seconds long
+  const bin = join(dir, "bin");
+  await mkdir(bin);
+  await Bun.write(join(bin, "ffprobe"), "#!/bin/sh\necho 30.0\n");
+  await chmod(join(bin, "ffprobe"), 0o755);
+  process.env.PATH = `${bin}${delimiter}${path}`;
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  replies = [];
+});
+
+afterAll(async () => {
+  process.env.PATH = path;
+  server.stop(true);
+  await rm(dir, { recursive: true, force: true });
+});
+
+function analyzer(options: Partial<LocalAnalyzerOptions> = {}) {
+  return new LocalAnalyzer({
+    baseUrl: `http://127.0.0.1:${server.port}/v1/`,
+    model: "qwen2.5-vl",
+    ...options,
+  });
+}
+
+test("sends the clip inline with the prompt and schema", async () => {
+  replies.push(
+    '```json\n{"title": "Ace", "highlights": [{"start_time": "00:05", "end_time": "00:12", "description": "Ace"}]}\n```',
+  );
+
+  const result = await analyzer({ apiKey: "secret" }).analyze(clipPath, {
+    clipDuration: 30,
+  });
+
+  expect(result).toEqual({
+    title: "Ace",
+    highlights: [
+      { start_time: "00:05", end_time: "00:12", description: "Ace" },
+    ],
+  });
+
+  const [request] = requests;
+  expect(request!.path).toBe("/v1/chat/completions");
+  expect(request!.headers.get("authorization")).toBe("Bearer secret");
+  expect(request!.body.model).toBe("qwen2.5-vl");
+
+  const [video, prompt] = request!.body.messages[0].content;
+  expect(video).toEqual({
+    type: "video_url",
+    video_url: {
+      url: `data:video/x-matroska;base64,${Buffer.from("not really a video").toString("base64")}`,
+    },
+  });
+  expect(prompt.type).toBe("text");
+  expect(prompt.text).toContain("30.0 seconds long");
+  expect(request!.body.response_format).toEqual({
+    type: "json_schema",
+    json_schema: { name: "analysis", schema: ANALYSIS_JSON_SCHEMA },
+  });
+});
+
+test("leaves response_format out with structuredOutput: false", async () => {
+  replies.push('{"title": "Nothing", "highlights": []}');
+
+  await analyzer({ structuredOutput: false }).analyze(clipPath);
+
+  expect(requests[0]!.body.response_format).toBeUndefined();
+  expect(requests[0]!.headers.get("authorization")).toBeNull();
+});
+
+test("passes corrections on to the prompt", async () => {
+  replies.push('{"title": "Ace", "highlights": []}');
+
+  await analyzer().analyze(clipPath, {
+    corrections: ["highlights[0].start_time is missing"],
+  });
+
+  expect(requests[0]!.body.messages[0].content[1].text).toContain(
+    "- highlights[0].start_time is missing",
+  );
+});
+
+test("generates a title without the surrounding quotes", async () => {
+  replies.push('"Triple Kill Night"\n');
+
+  const title = await analyzer().generateTitle(
+    ["Ace", "Clutch"],
+    ["Ace", "1v3 clutch"],
+  );
+
+  expect(title).toBe("Triple Kill Night");
+  expect(requests[0]!.body.messages[0].content).toContain("Clutch");
+});
+
+test("maps metadata responses", async () => {
+  replies.push('{"description": " Big ace. ", "tags": ["valorant", 3, "ace"]}');
+
+  const metadata = await analyzer().generateMetadata({
+    title: "Ace",
+    highlights: [],
+  });
+
+  expect(metadata).toEqual({
+    description: "Big ace.",
+    tags: ["valorant", "ace"],
+  });
+  expect(requests[0]!.body.response_format.json_schema).toEqual({
+    name: "metadata",
+    schema: METADATA_JSON_SCHEMA,
+  });
+});
+
+test("reports error responses with their status", async () => {
+  replies.push({ status: 503, text: "model loading" });
+
+  await expect(analyzer().analyze(clipPath)).rejects.toThrow(
+    "Local analyzer request failed: 503 model loading",
+  );
+});
+
+test("refuses files over maxInlineMb without sending them", async () => {
+  const bigPath = join(dir, "big.mkv");
+  await Bun.write(bigPath, Buffer.alloc(2 * 1024 * 1024));
+
+  await expect(analyzer({ maxInlineMb: 1 }).analyze(bigPath)).rejects.toThrow(
+    "over the local analyzer's 1 MB limit",
+  );
+  expect(requests).toHaveLength(0);
+});
+
+test("analyzes a clip through the pipeline with the configured analyzer", async () => {
+  // The first answer is missing an end time and is sent back with the problem
+  replies.push(
+    '{"title": "Ace", "highlights": [{"start_time": "00:05", "description": "Ace"}]}',
+    '{"title": "Ace", "highlights": [{"start_time": "00:05", "end_time": "00:12", "description": "Ace"}]}',
+  );
+  const config = {
+    analyzer: {
+      provider: "local",
+      proxy: { enabled: false },
+      local: {
+        baseUrl: `http://127.0.0.1:${server.port}/v1`,
+        model: "qwen2.5-vl",
+      },
+    },
+  } as Config;
+  const lock = new LockManager(join(dir, "state.sqlite"));
+
+  const analysis = await analyzeClip(
+    { config, lock, analyzer: await createAnalyzer(config) },
+    clipPath,
+    "clip.mkv",
+  );
+
+  expect(analysis.title).toBe("Ace");
+  expect(analysis.highlights).toHaveLength(1);
+  expect(analysis.highlights[0]).toMatchObject({
+    start_time: "00:00:05",
+    end_time: "00:00:12",
+    description: "Ace",
+  });
+  expect(requests).toHaveLength(2);
+  const retry = requests[1]!.body.messages[0].content[1].text;
+  expect(retry).toContain("end_time is missing");
+  expect(retry).toContain("30.0 seconds long");
+});
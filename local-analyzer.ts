@@ -0,0 +1,145 @@
+import { readFile, stat } from "node:fs/promises";
+import {
+  ANALYSIS_JSON_SCHEMA,
+  METADATA_JSON_SCHEMA,
+  buildAnalysisPrompt,
+  buildMetadataPrompt,
+  buildTitlePrompt,
+  parseAnalysisResponse,
+  parseMetadataResponse,
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type Analyzer,
+  type VideoMetadata,
+} from "./analyzer";
+import { mimeTypeFor } from "./media";
+
+export interface LocalAnalyzerOptions {
+  baseUrl: string; // e.g. http://localhost:8000/v1
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  // Send the JSON schema as `response_format` (disable for servers without it)
+  structuredOutput?: boolean;
+  // Largest file sent inline; the whole file is held in memory as base64
+  maxInlineMb?: number;
+}
+
+const DEFAULT_MAX_INLINE_MB = 100;
+
+// Talks to any OpenAI-compatible chat completions server (vLLM, llama.cpp,
+// LM Studio, ...) hosting a video-capable model. The clip is sent inline as
+// a base64 data URL, so nothing leaves the machine.
+export class LocalAnalyzer implements Analyzer {
+  readonly name = "local";
+
+  constructor(private options: LocalAnalyzerOptions) {
+    if (!options.baseUrl || !options.model) {
+      throw new Error(
+        "Local analyzer needs 'baseUrl' and 'model' in config.json",
+      );
+    }
+  }
+
+  async analyze(
+    filePath: string,
+    options: AnalyzeOptions = {},
+  ): Promise<AnalysisResult> {
+    const mimeType = mimeTypeFor(filePath);
+    const maxMb = this.options.maxInlineMb ?? DEFAULT_MAX_INLINE_MB;
+    const sizeMb = (await stat(filePath)).size / (1024 * 1024);
+    if (sizeMb > maxMb) {
+      throw new Error(
+        `${filePath} is ${sizeMb.toFixed(1)} MB, over the local analyzer's ${maxMb} MB limit. Enable analyzer.proxy (or analyzer.windows) to send a smaller copy, or raise analyzer.local.maxInlineMb.`,
+      );
+    }
+    const video = await readFile(filePath);
+
+    console.log(`Sending ${filePath} to ${this.options.baseUrl}...`);
+
+    const responseText = await this.complete({
+      temperature: 0.6,
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "video_url",
+              video_url: {
+                url: `data:${mimeType};base64,${video.toString("base64")}`,
+              },
+            },
+            { type: "text", text: buildAnalysisPrompt(options) },
+          ],
+        },
+      ],
+      ...(this.options.structuredOutput !== false && {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "analysis", schema: ANALYSIS_JSON_SCHEMA },
+        },
+      }),
+    });
+    console.log("Raw Local Model Response:", responseText);
+
+    return parseAnalysisResponse(responseText);
+  }
+
+  async generateTitle(
+    titles: string[],
+    descriptions: string[],
+  ): Promise<string> {
+    const responseText = await this.complete({
+      temperature: 0.8,
+      messages: [
+        { role: "user", content: buildTitlePrompt(titles, descriptions) },
+      ],
+    });
+    return responseText.trim().replace(/^"|"$/g, "");
+  }
+
+  async generateMetadata(analysis: AnalysisResult): Promise<VideoMetadata> {
+    const responseText = await this.complete({
+      temperature: 0.8,
+      messages: [{ role: "user", content: buildMetadataPrompt(analysis) }],
+      ...(this.options.structuredOutput !== false && {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "metadata", schema: METADATA_JSON_SCHEMA },
+        },
+      }),
+    });
+    return parseMetadataResponse(responseText);
+  }
+
+  // POSTs a chat completion request and returns the first message text
+  private async complete(request: Record<string, unknown>): Promise<string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const res = await fetch(
+      `${this.options.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers,
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? 10 * 60 * 1000),
+        body: JSON.stringify({ model: this.options.model, ...request }),
+      },
+    );
+
+    if (!res.ok) {
+      throw new Error(
+        `Local analyzer request failed: ${res.status} ${await res.text()}`,
+      );
+    }
+
+    const body = (await res.json()) as {
+      choices?: { message?: { content?: string } }[];
+    };
+    return body.choices?.[0]?.message?.content ?? "";
+  }
+}
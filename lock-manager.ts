@@ -1,7 +1,17 @@
-import { existsSync, readFileSync, writeFileSync } from "node:fs";
-
-const LOCK_FILE = "process-lock.json";
+import { Database } from "bun:sqlite";
+import { existsSync, readFileSync, renameSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { AnalysisResult, AnalyzerUsage, VideoMetadata } from "./analyzer";
+import type { WindowAnalysis } from "./analysis-windows";
+import type { Selection } from "./highlight-selection";
+import type { Publication } from "./publisher";
+import type { ResumableSession } from "./resumable-upload";
+import type { Stage } from "./retry-policy";
+import type { Chapter } from "./video-processor";
 
+const STATE_DB = "process-state.sqlite";
+// Pre-SQLite state file, imported once by migration 2
+const LEGACY_LOCK_FILE = "process-lock.json";
 export interface VideoState {
   status:
     | "PENDING"
@@ -10,61 +20,378 @@ export interface VideoState {
     | "UPLOADED"
     | "FAILED"
     | "RENDERED_NO_UPLOAD"
-    | "UPLOAD_FAILED";
+    | "UPLOAD_FAILED"
+    | "RETRY_SCHEDULED"
+    | "SKIPPED" // Backfilled: the bot never processes it
+    | "AWAITING_REVIEW"; // Review mode: analysed, waiting for approval
   originalName: string;
-  geminiAnalysis?: {
-    title: string;
-    highlights: any[];
-  };
+  geminiAnalysis?: AnalysisResult;
+  // Windows of a long recording analysed so far (analysis in progress)
+  analysisWindows?: WindowAnalysis[];
+  // Billed model calls made for this entry (analysis, title, metadata).
+  // Kept when a stage is redone: the money was spent either way.
+  usage?: AnalyzerUsage[];
+  approvedAt?: string; // Review mode: when the highlights were approved
+  sourcePath?: string; // Where the clip was last seen
+  // Identity of the clip: follows it through renames and moves, and finds
+  // copies of it (see clip-identity.ts)
+  contentHash?: string;
+  sourceDuration?: number;
+  // The source file when it was last hashed; a different file saved at the
+  // same path is hashed again
+  sourceSize?: number;
+  sourceMtimeMs?: number;
   outputFilePath?: string;
-  uploadId?: string; // YouTube ID ou Drive Link
+  verticalOutputPath?: string; // 9:16 cut for Shorts
+  renderProfile?: string; // Forces a render profile for this clip
+  renderedProfile?: string; // Profile the cached output was rendered with
+  selection?: Selection; // Highlights chosen for the montage, and dropped
+  noMusic?: boolean; // Render this clip without the music bed
+  montageDuration?: number;
+  chapters?: Chapter[]; // Part offsets in the rendered montage
+  thumbnailPath?: string;
+  youtubeMetadata?: VideoMetadata; // Description and tags, generated once
+  publishAt?: string; // Scheduled publish time of the upload
+  uploadId?: string; // YouTube video ID
+  shortUploadId?: string;
+  // Unfinished resumable uploads, continued after a restart
+  uploadSession?: ResumableSession;
+  shortUploadSession?: ResumableSession;
+  // Outcome per publishing destination (youtube, folder, s3, discord)
+  publications?: Record<string, Publication>;
+  compilations?: string[]; // Compilation entries this clip was included in
+  sources?: string[]; // Compilation entries only: the clips it was built from
+  renderProgress?: {
+    job: string;
+    percent: number;
+    etaSeconds?: number;
+    speed?: number;
+  };
   errorMessage?: string;
+  // Retry bookkeeping: attempts per stage, and when the failed stage
+  // (retryStage) runs again while RETRY_SCHEDULED
+  attempts?: Partial<Record<Stage, number>>;
+  retryStage?: Stage;
+  nextRetryAt?: string;
+  note?: string;
   lastUpdated: string;
 }
 
-export class LockManager {
-  private data: Record<string, VideoState> = {};
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  videoSeconds: number;
+  costUsd: number;
+}
 
-  constructor() {
-    this.load();
-  }
+export interface StatusChange {
+  from: VideoState["status"] | null;
+  to: VideoState["status"];
+  errorMessage?: string;
+  at: string;
+}
+
+// Each migration runs once, in order, inside a transaction; the schema
+// version is kept in PRAGMA user_version. A migration can return a step to
+// run once the transaction committed (file moves, which can't roll back).
+const MIGRATIONS: ((db: Database) => void | (() => void))[] = [
+  // 1: clip state (JSON document per clip) and status history
+  (db) => {
+    db.run(`
+      CREATE TABLE clips (
+        name TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    db.run(`
+      CREATE TABLE status_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        error_message TEXT,
+        at TEXT NOT NULL
+      )
+    `);
+    db.run(`CREATE INDEX status_history_name ON status_history (name)`);
+  },
+  // 2: import the old process-lock.json, kept next to the database
+  (db) => {
+    const legacyFile = join(dirname(db.filename), LEGACY_LOCK_FILE);
+    if (!existsSync(legacyFile)) return;
 
-  private load() {
+    let legacy: Record<string, VideoState>;
     try {
-      if (existsSync(LOCK_FILE)) {
-        this.data = JSON.parse(readFileSync(LOCK_FILE, "utf-8"));
-      }
-    } catch (e) {
-      console.error("⚠️ Erro ao ler lockfile", e);
-      throw e;
+      legacy = JSON.parse(readFileSync(legacyFile, "utf-8"));
+    } catch (error) {
+      const corrupt = `${legacyFile}.corrupt`;
+      console.error(
+        `🔓 ${legacyFile} can't be read (${(error as Error).message}); moving it to ${corrupt} and starting without it`,
+      );
+      return () => renameSync(legacyFile, corrupt);
     }
+    const insert = db.prepare(
+      `INSERT INTO clips (name, status, data, updated_at) VALUES (?, ?, ?, ?)`,
+    );
+    const history = db.prepare(
+      `INSERT INTO status_history (name, from_status, to_status, error_message, at) VALUES (?, NULL, ?, ?, ?)`,
+    );
+    for (const [name, state] of Object.entries(legacy)) {
+      insert.run(name, state.status, JSON.stringify(state), state.lastUpdated);
+      history.run(
+        name,
+        state.status,
+        state.errorMessage ?? null,
+        state.lastUpdated,
+      );
+    }
+
+    console.log(
+      `🔓 Imported ${Object.keys(legacy).length} entries from ${legacyFile}`,
+    );
+    return () => renameSync(legacyFile, `${legacyFile}.migrated`);
+  },
+  // 3: content hash lookup, and other names/paths of the same clip
+  (db) => {
+    db.run(`ALTER TABLE clips ADD COLUMN content_hash TEXT`);
+    db.run(
+      `UPDATE clips SET content_hash = json_extract(data, '$.contentHash')`,
+    );
+    db.run(`CREATE INDEX clips_content_hash ON clips (content_hash)`);
+    db.run(`
+      CREATE TABLE aliases (
+        alias TEXT PRIMARY KEY,
+        name TEXT NOT NULL
+      )
+    `);
+  },
+  // 4: billed analyzer calls, for budgets (entries can be renamed or reset)
+  (db) => {
+    db.run(`
+      CREATE TABLE usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        call TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        video_seconds REAL,
+        cost_usd REAL NOT NULL,
+        at TEXT NOT NULL
+      )
+    `);
+    db.run(`CREATE INDEX usage_at ON usage (at)`);
+  },
+];
+
+// Clip state in SQLite. WAL mode and IMMEDIATE transactions make it safe for
+// concurrent workers and separate processes (backfill, CLI) to update it,
+// and a crash can't leave a half-written file behind.
+export class LockManager {
+  private db: Database;
+
+  constructor(path: string = STATE_DB) {
+    this.db = new Database(path, { create: true });
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run("PRAGMA busy_timeout = 5000");
+    this.migrate();
+  }
+
+  private migrate() {
+    const afterCommit = this.db
+      .transaction(() => {
+        const { user_version: version } = this.db
+          .query("PRAGMA user_version")
+          .get() as { user_version: number };
+
+        const steps = MIGRATIONS.slice(version).map((migration) =>
+          migration(this.db),
+        );
+        this.db.run(`PRAGMA user_version = ${MIGRATIONS.length}`);
+        return steps;
+      })
+      .immediate();
+    afterCommit.forEach((step) => step?.());
   }
 
-  private save() {
-    writeFileSync(LOCK_FILE, JSON.stringify(this.data, null, 2));
+  // Entry name for a name or alias (another filename or path of the clip).
+  // Unknown names are returned as they are.
+  resolve(filename: string): string {
+    const row = this.db
+      .query(
+        "SELECT name FROM aliases WHERE alias = ? AND NOT EXISTS (SELECT 1 FROM clips WHERE name = ?)",
+      )
+      .get(filename, filename) as { name: string } | null;
+    return row?.name ?? filename;
   }
 
+  // Every method accepts aliases in place of the entry name
   get(filename: string): VideoState | undefined {
-    this.load(); // Sempre relê do disco para garantir sincronia
-    return this.data[filename];
+    const row = this.db
+      .query("SELECT data FROM clips WHERE name = ?")
+      .get(this.resolve(filename)) as { data: string } | null;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  // Entries whose clip has this content hash
+  findByHash(contentHash: string): string[] {
+    const rows = this.db
+      .query("SELECT name FROM clips WHERE content_hash = ? ORDER BY name")
+      .all(contentHash) as { name: string }[];
+    return rows.map((row) => row.name);
+  }
+
+  aliases(filename: string): string[] {
+    const rows = this.db
+      .query("SELECT alias FROM aliases WHERE name = ? ORDER BY alias")
+      .all(this.resolve(filename)) as { alias: string }[];
+    return rows.map((row) => row.alias);
+  }
+
+  addAlias(alias: string, filename: string) {
+    const name = this.resolve(filename);
+    if (alias === name) return;
+    this.db.run(
+      `INSERT INTO aliases (alias, name) VALUES (?, ?)
+       ON CONFLICT (alias) DO UPDATE SET name = excluded.name`,
+      [alias, name],
+    );
+  }
+
+  entries(): [string, VideoState][] {
+    const rows = this.db
+      .query("SELECT name, data FROM clips ORDER BY name")
+      .all() as { name: string; data: string }[];
+    return rows.map((row) => [row.name, JSON.parse(row.data)]);
+  }
+
+  history(filename: string): StatusChange[] {
+    const rows = this.db
+      .query(
+        "SELECT from_status, to_status, error_message, at FROM status_history WHERE name = ? ORDER BY id",
+      )
+      .all(this.resolve(filename)) as {
+      from_status: VideoState["status"] | null;
+      to_status: VideoState["status"];
+      error_message: string | null;
+      at: string;
+    }[];
+    return rows.map((row) => ({
+      from: row.from_status,
+      to: row.to_status,
+      errorMessage: row.error_message ?? undefined,
+      at: row.at,
+    }));
+  }
+
+  // Adds a billed call to the entry and to the spending totals
+  recordUsage(filename: string, usage: AnalyzerUsage) {
+    filename = this.resolve(filename);
+    this.db
+      .transaction(() => {
+        this.db.run(
+          `INSERT INTO usage (name, call, model, input_tokens, output_tokens, video_seconds, cost_usd, at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            filename,
+            usage.call,
+            usage.model,
+            usage.inputTokens,
+            usage.outputTokens,
+            usage.videoSeconds ?? null,
+            usage.costUsd,
+            usage.at,
+          ],
+        );
+        const previous = this.get(filename)?.usage ?? [];
+        this.update(filename, { usage: [...previous, usage] });
+      })
+      .immediate();
+  }
+
+  // Billed calls since an ISO timestamp, across all entries
+  usageSince(since: string): UsageTotals {
+    return this.db
+      .query(
+        `SELECT count(*) AS calls,
+                coalesce(sum(input_tokens), 0) AS inputTokens,
+                coalesce(sum(output_tokens), 0) AS outputTokens,
+                coalesce(sum(video_seconds), 0) AS videoSeconds,
+                coalesce(sum(cost_usd), 0) AS costUsd
+         FROM usage WHERE at >= ?`,
+      )
+      .get(since) as UsageTotals;
+  }
+
+  // Moves an entry and its history to another name (renamed clip)
+  rename(from: string, to: string) {
+    this.db
+      .transaction(() => {
+        if (this.db.query("SELECT 1 FROM clips WHERE name = ?").get(to)) {
+          throw new Error(`${to} is already in the state store`);
+        }
+        this.db.run(`UPDATE clips SET name = ? WHERE name = ?`, [to, from]);
+        this.db.run(`UPDATE status_history SET name = ? WHERE name = ?`, [
+          to,
+          from,
+        ]);
+        this.db.run(`UPDATE usage SET name = ? WHERE name = ?`, [to, from]);
+        // The old name keeps working
+        this.db.run(`DELETE FROM aliases WHERE alias = ?`, [to]);
+        this.db.run(`UPDATE aliases SET name = ? WHERE name = ?`, [to, from]);
+        this.db.run(`INSERT INTO aliases (alias, name) VALUES (?, ?)`, [
+          from,
+          to,
+        ]);
+      })
+      .immediate();
   }
 
   // Inicializa ou atualiza o estado de um arquivo
   update(filename: string, updates: Partial<VideoState>) {
-    this.load();
+    filename = this.resolve(filename);
+    this.db
+      .transaction(() => {
+        const currentState = this.get(filename);
+        const now = new Date().toISOString();
 
-    const currentState = this.data[filename] || {
-      status: "PENDING",
-      originalName: filename,
-      lastUpdated: new Date().toISOString(),
-    };
+        const nextState: VideoState = {
+          ...(currentState ?? {
+            status: "PENDING",
+            originalName: filename,
+            lastUpdated: now,
+          }),
+          ...updates,
+          lastUpdated: now,
+        };
 
-    this.data[filename] = {
-      ...currentState,
-      ...updates,
-      lastUpdated: new Date().toISOString(),
-    };
+        this.db.run(
+          `INSERT INTO clips (name, status, data, updated_at, content_hash) VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT (name) DO UPDATE SET status = excluded.status, data = excluded.data, updated_at = excluded.updated_at, content_hash = excluded.content_hash`,
+          [
+            filename,
+            nextState.status,
+            JSON.stringify(nextState),
+            now,
+            nextState.contentHash ?? null,
+          ],
+        );
 
-    this.save();
+        if (currentState?.status !== nextState.status) {
+          this.db.run(
+            `INSERT INTO status_history (name, from_status, to_status, error_message, at) VALUES (?, ?, ?, ?, ?)`,
+            [
+              filename,
+              currentState?.status ?? null,
+              nextState.status,
+              nextState.errorMessage ?? null,
+              now,
+            ],
+          );
+        }
+      })
+      .immediate();
   }
 }
@@ -0,0 +1,226 @@
+import { spawn } from "node:child_process";
+import { createWriteStream } from "node:fs";
+import { mkdir, rm } from "node:fs/promises";
+import { dirname, extname } from "node:path";
+
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".mkv": "video/x-matroska",
+  ".mov": "video/quicktime",
+  ".avi": "video/x-msvideo",
+};
+
+// MIME type of a video file, by extension
+export function mimeTypeFor(filePath: string): string {
+  return VIDEO_MIME_TYPES[extname(filePath).toLowerCase()] ?? "video/mp4";
+}
+
+// Returns the container duration of a media file in seconds (via ffprobe).
+export async function probeDuration(filePath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const ffprobe = spawn("ffprobe", [
+      "-v",
+      "error",
+      "-show_entries",
+      "format=duration",
+      "-of",
+      "default=noprint_wrappers=1:nokey=1",
+      filePath,
+    ]);
+
+    let stdout = "";
+    let stderr = "";
+    ffprobe.stdout.on("data", (d) => (stdout += d.toString()));
+    ffprobe.stderr.on("data", (d) => (stderr += d.toString()));
+
+    ffprobe.on("close", (code) => {
+      const duration = parseFloat(stdout.trim());
+      if (code === 0 && Number.isFinite(duration)) {
+        resolve(duration);
+      } else {
+        reject(
+          new Error(
+            `ffprobe could not read duration of ${filePath}: ${stderr.trim() || stdout.trim()}`,
+          ),
+        );
+      }
+    });
+
+    ffprobe.on("error", (err) => {
+      reject(err);
+    });
+  });
+}
+
+// Returns the width and height of the first video stream (via ffprobe).
+export async function probeVideoSize(
+  filePath: string,
+): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const ffprobe = spawn("ffprobe", [
+      "-v",
+      "error",
+      "-select_streams",
+      "v:0",
+      "-show_entries",
+      "stream=width,height",
+      "-of",
+      "csv=s=x:p=0",
+      filePath,
+    ]);
+
+    let stdout = "";
+    let stderr = "";
+    ffprobe.stdout.on("data", (d) => (stdout += d.toString()));
+    ffprobe.stderr.on("data", (d) => (stderr += d.toString()));
+
+    ffprobe.on("close", (code) => {
+      const [width, height] = stdout.trim().split("x").map(Number);
+      if (code === 0 && width && height) {
+        resolve({ width, height });
+      } else {
+        reject(
+          new Error(
+            `ffprobe could not read video size of ${filePath}: ${stderr.trim() || stdout.trim()}`,
+          ),
+        );
+      }
+    });
+
+    ffprobe.on("error", (err) => {
+      reject(err);
+    });
+  });
+}
+
+export interface FfmpegProgress {
+  percent: number; // 0..100
+  outTimeSeconds: number;
+  speed?: number; // x realtime
+  etaSeconds?: number;
+}
+
+export interface FfmpegJobOptions {
+  // Expected output duration, used to compute percent and ETA
+  duration?: number;
+  onProgress?: (progress: FfmpegProgress) => void;
+  // Kills ffmpeg and deletes `outputPath` when aborted
+  signal?: AbortSignal;
+  outputPath?: string;
+  // ffmpeg's stderr is written here instead of the console
+  logPath?: string;
+}
+
+// Lines of stderr quoted in the error message when ffmpeg fails
+const ERROR_TAIL_LINES = 5;
+
+export async function runFfmpeg(
+  args: string[],
+  options: FfmpegJobOptions = {},
+): Promise<void> {
+  const { duration, onProgress, signal, outputPath, logPath } = options;
+
+  if (logPath) {
+    await mkdir(dirname(logPath), { recursive: true });
+  }
+  // Checked after the await, right before spawning
+  if (signal?.aborted) {
+    throw abortError();
+  }
+
+  return new Promise((resolve, reject) => {
+    const log = logPath ? createWriteStream(logPath) : undefined;
+    log?.write(`ffmpeg ${args.join(" ")}\n\n`);
+
+    console.log("Spawning ffmpeg with args:", args.join(" "));
+
+    const ffmpeg = spawn("ffmpeg", [
+      "-progress",
+      "pipe:1",
+      "-nostats",
+      ...args,
+    ]);
+
+    // -progress writes key=value blocks, each ending with progress=...
+    let block: Record<string, string> = {};
+    let pending = "";
+    ffmpeg.stdout.on("data", (d) => {
+      pending += d.toString();
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const [key, value] = line.trim().split("=");
+        if (!key || value === undefined) continue;
+        block[key] = value;
+        if (key !== "progress") continue;
+
+        const outTimeSeconds = Number(block.out_time_us ?? 0) / 1_000_000;
+        const speed = parseFloat(block.speed ?? "") || undefined;
+        const percent = duration
+          ? Math.min(100, (outTimeSeconds / duration) * 100)
+          : 0;
+        onProgress?.({
+          percent: value === "end" ? 100 : percent,
+          outTimeSeconds,
+          speed,
+          etaSeconds:
+            duration && speed
+              ? Math.max(0, (duration - outTimeSeconds) / speed)
+              : undefined,
+        });
+        block = {};
+      }
+    });
+
+    let stderrTail: string[] = [];
+    ffmpeg.stderr.on("data", (d) => {
+      const text = d.toString();
+      log?.write(text);
+      stderrTail = [...stderrTail, ...text.split("\n").filter(Boolean)].slice(
+        -ERROR_TAIL_LINES,
+      );
+    });
+
+    let aborted = false;
+    const onAbort = () => {
+      aborted = true;
+      ffmpeg.kill("SIGKILL");
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    ffmpeg.on("close", (code) => {
+      signal?.removeEventListener("abort", onAbort);
+      log?.end();
+
+      if (aborted) {
+        // Don't leave a truncated file behind that looks like a render
+        const cleanup = outputPath
+          ? rm(outputPath, { force: true })
+          : Promise.resolve();
+        cleanup.finally(() => reject(abortError()));
+      } else if (code === 0) {
+        resolve();
+      } else {
+        const where = logPath ? ` (full log: ${logPath})` : "";
+        reject(
+          new Error(
+            `ffmpeg exited with code ${code}${where}: ${stderrTail.join(" | ")}`,
+          ),
+        );
+      }
+    });
+
+    ffmpeg.on("error", (err) => {
+      signal?.removeEventListener("abort", onAbort);
+      log?.end();
+      reject(err);
+    });
+  });
+}
+
+function abortError(): Error {
+  const error = new Error("Render cancelled");
+  error.name = "AbortError";
+  return error;
+}
@@ -0,0 +1,60 @@
+import { readdir } from "node:fs/promises";
+import { extname, join } from "node:path";
+
+export interface MusicOptions {
+  enabled?: boolean;
+  // Folder with the tracks; one is picked at random per montage
+  folder?: string;
+  // Music level before ducking (1 = original)
+  volume?: number;
+  fadeSeconds?: number;
+  // sidechaincompress settings: game audio above `duckThreshold` pushes the
+  // music down by `duckRatio`
+  duckThreshold?: number;
+  duckRatio?: number;
+  duckAttackMs?: number;
+  duckReleaseMs?: number;
+}
+
+const AUDIO_EXTENSIONS = [".mp3", ".wav", ".ogg", ".flac", ".m4a", ".aac"];
+
+const DEFAULTS = {
+  volume: 0.25,
+  fadeSeconds: 2,
+  duckThreshold: 0.05,
+  duckRatio: 8,
+  duckAttackMs: 20,
+  duckReleaseMs: 400,
+};
+
+export async function pickTrack(folder: string): Promise<string | undefined> {
+  const files = await readdir(folder);
+  const tracks = files.filter((f) =>
+    AUDIO_EXTENSIONS.includes(extname(f).toLowerCase()),
+  );
+  if (tracks.length === 0) return undefined;
+  return join(folder, tracks[Math.floor(Math.random() * tracks.length)]!);
+}
+
+// Filter chains mixing the music input (looped with -stream_loop) under the
+// montage audio `[gameLabel]`, ducked by it, into `[outLabel]`.
+export function musicFilter(
+  musicInput: number,
+  gameLabel: string,
+  outLabel: string,
+  duration: number,
+  options: MusicOptions = {},
+): string {
+  const o = { ...DEFAULTS, ...options };
+  const fade = Math.min(o.fadeSeconds, duration / 2);
+  const fadeOutStart = Math.max(0, duration - fade);
+
+  return (
+    `[${musicInput}:a]atrim=0:${duration},asetpts=PTS-STARTPTS,volume=${o.volume},` +
+    `afade=t=in:d=${fade},afade=t=out:st=${fadeOutStart}:d=${fade},` +
+    `aformat=sample_rates=48000:channel_layouts=stereo[music];` +
+    `${gameLabel}asplit=2[game][sidechain];` +
+    `[music][sidechain]sidechaincompress=threshold=${o.duckThreshold}:ratio=${o.duckRatio}:attack=${o.duckAttackMs}:release=${o.duckReleaseMs}[ducked];` +
+    `[game][ducked]amix=inputs=2:duration=first:normalize=0${outLabel}`
+  );
+}
@@ -0,0 +1,32 @@
+import { ChatNotifier } from "./chat-notifier";
+import { CommandNotifier } from "./command-notifier";
+import { EventBus } from "./events";
+import type { Config } from "./config";
+import type { Notifier, NotifierConfig } from "./notifier";
+import { WebhookNotifier } from "./webhook-notifier";
+
+function createNotifier(config: NotifierConfig): Notifier {
+  switch (config.type) {
+    case "webhook":
+      return new WebhookNotifier(config);
+    case "discord":
+    case "slack":
+      return new ChatNotifier({ ...config, format: config.type });
+    case "command":
+      return new CommandNotifier(config.command);
+    default:
+      throw new Error(
+        `Unknown notifier type: ${(config as { type: string }).type}`,
+      );
+  }
+}
+
+// Event bus with every notifier from `notifications` subscribed
+export function createEventBus(config: Config): EventBus {
+  const events = new EventBus();
+  for (const notifierConfig of config.notifications ?? []) {
+    const notifier = createNotifier(notifierConfig);
+    events.on((event) => notifier.notify(event), notifierConfig.events);
+  }
+  return events;
+}
@@ -0,0 +1,45 @@
+import type { EventName, PipelineEvent } from "./events";
+
+// A destination for pipeline events (webhook, chat channel, local command)
+export interface Notifier {
+  readonly name: string;
+  notify(event: PipelineEvent): Promise<void>;
+}
+
+// Requests to a notification endpoint give up after this, so a hanging
+// endpoint doesn't hold up the clip
+export const NOTIFY_TIMEOUT_MS = 10_000;
+
+export type NotifierConfig = (
+  | {
+      type: "webhook";
+      url: string;
+      headers?: Record<string, string>; // e.g. an Authorization header
+    }
+  | { type: "discord" | "slack"; url: string; username?: string }
+  | { type: "command"; command: string }
+) & {
+  events?: EventName[]; // Default: every event
+};
+
+// One-line, human-readable summary used by chat and command notifiers
+export function describeEvent(event: PipelineEvent): string {
+  switch (event.type) {
+    case "clip.detected":
+      return `🆕 New clip: ${event.filename}`;
+    case "analysis.done":
+      return `🤖 ${event.filename}: "${event.title}" (${event.highlights} highlights)`;
+    case "analysis.no_highlights":
+      return `⚠️ ${event.filename}: no highlights found`;
+    case "render.done":
+      return `✂️ ${event.filename}: montage rendered (${event.profile})`;
+    case "upload.success":
+      return `🎉 ${event.filename}: published to ${event.destination}${event.url ? ` ${event.url}` : ""}`;
+    case "upload.failure":
+      return `❌ ${event.filename}: publishing to ${event.destination} failed: ${event.error}`;
+    case "clip.failed":
+      return event.nextRetryAt
+        ? `🔁 ${event.filename}: ${event.stage} failed (${event.error}), retrying at ${event.nextRetryAt}`
+        : `💥 ${event.filename}: ${event.stage} failed: ${event.error}`;
+  }
+}
@@ -0,0 +1,92 @@
+export interface TextStyle {
+  fontFile?: string;
+  fontSize?: number;
+  fontColor?: string;
+  borderColor?: string;
+  borderWidth?: number;
+  // Semi-transparent box behind the text, e.g. "black@0.4"
+  boxColor?: string;
+  position?: "top" | "center" | "bottom";
+}
+
+export interface OverlayOptions {
+  style?: TextStyle;
+  captions?: {
+    enabled?: boolean;
+    // How long the highlight description stays on screen
+    durationSeconds?: number;
+    style?: TextStyle;
+  };
+  titleCard?: {
+    enabled?: boolean;
+    durationSeconds?: number;
+    background?: string;
+    style?: TextStyle;
+  };
+  outro?: {
+    enabled?: boolean;
+    durationSeconds?: number;
+    background?: string;
+    text?: string;
+    logoPath?: string;
+    style?: TextStyle;
+  };
+}
+
+export const DEFAULT_STYLE: Required<Omit<TextStyle, "fontFile" | "boxColor">> =
+  {
+    fontSize: 64,
+    fontColor: "white",
+    borderColor: "black",
+    borderWidth: 3,
+    position: "bottom",
+  };
+
+// Quoting protects ':' and ',' from the filtergraph parser, but a quote can
+// not be escaped inside quotes and '%' and backslashes drive drawtext's text
+// expansion, so those are swapped for look-alike characters.
+export function escapeDrawtext(text: string): string {
+  const safe = text
+    .replace(/\\/g, "/")
+    .replace(/'/g, "\u2019")
+    .replace(/%/g, "\uff05");
+  return `'${safe}'`;
+}
+
+function positionY(position: TextStyle["position"]): string {
+  switch (position) {
+    case "top":
+      return "h*0.08";
+    case "center":
+      return "(h-text_h)/2";
+    default:
+      return "h-text_h-h*0.08";
+  }
+}
+
+// Builds a drawtext filter; `from`/`to` (seconds) limit when it is visible.
+export function drawtextFilter(
+  text: string,
+  style: TextStyle = {},
+  from?: number,
+  to?: number,
+): string {
+  const s = { ...DEFAULT_STYLE, ...style };
+  const options = [
+    `text=${escapeDrawtext(text)}`,
+    `fontsize=${s.fontSize}`,
+    `fontcolor=${s.fontColor}`,
+    `borderw=${s.borderWidth}`,
+    `bordercolor=${s.borderColor}`,
+    `x=(w-text_w)/2`,
+    `y=${positionY(s.position)}`,
+  ];
+  if (s.fontFile) options.push(`fontfile=${escapeDrawtext(s.fontFile)}`);
+  if (s.boxColor) {
+    options.push("box=1", `boxcolor=${s.boxColor}`, "boxborderw=16");
+  }
+  if (from !== undefined && to !== undefined) {
+    options.push(`enable='between(t,${from},${to})'`);
+  }
+  return `drawtext=${options.join(":")}`;
+}
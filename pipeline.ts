@@ -0,0 +1,695 @@
+import { join } from "node:path";
+import type {
+  AnalysisResult,
+  Analyzer,
+  Highlight,
+  UsageListener,
+} from "./analyzer";
+import {
+  createProxy,
+  proxyLength,
+  proxySegments,
+  removeProxy,
+  toSourceTimeline,
+  windowSegments,
+} from "./analysis-proxy";
+import { analyzeWithValidation } from "./analysis-validator";
+import {
+  mergeWindows,
+  splitWindows,
+  type WindowAnalysis,
+} from "./analysis-windows";
+import { detectKills, refineWithKillFeed } from "./killfeed-detector";
+import { detectReactions, mergeAudioCandidates } from "./audio-detector";
+import { BudgetExceededError, checkBudget } from "./budget";
+import { selectHighlights } from "./highlight-selection";
+import { mapInSlots, type Slots } from "./slots";
+import {
+  createMontage,
+  sanitizeFilename,
+  type MontageResult,
+} from "./video-processor";
+import type { FfmpegProgress } from "./media";
+import {
+  isTransient,
+  policyFor,
+  retryDelaySeconds,
+  type Stage,
+} from "./retry-policy";
+import {
+  DEFAULT_PROFILE,
+  profileNameFor,
+  resolveRenderProfile,
+} from "./render-profiles";
+import { configFor, type Config } from "./config";
+import type { EventBus } from "./events";
+import type { Publication } from "./publisher";
+import { createPublishers, destinationsFor } from "./publisher-factory";
+import type { LockManager, VideoState } from "./lock-manager";
+
+// Everything a pipeline stage needs, shared by the bot and the CLI
+export interface PipelineContext {
+  config: Config;
+  lock: LockManager;
+  analyzer: Analyzer;
+  noMusic?: boolean; // Per-run switch (--no-music)
+  events?: EventBus; // Notifications; nothing is emitted without it
+  slots?: Slots; // The clip queue's; windows of a clip use free ones
+}
+
+// Render and publish work without an analyzer (YouTube then skips the
+// generated description and tags)
+type OutputContext = Omit<PipelineContext, "analyzer"> & {
+  analyzer?: Analyzer;
+};
+
+// How often render progress is printed and saved to the state store
+const PROGRESS_INTERVAL_MS = 5000;
+
+// Where a tracked clip is on disk. Entries from before clips were located
+// by the watcher are assumed to be directly in watchPath.
+export function sourcePathFor(
+  config: Config,
+  filename: string,
+  state?: VideoState,
+): string {
+  return state?.sourcePath ?? join(config.watchPath, filename);
+}
+
+// Throttled progress output to the console and the state entry
+function progressReporter(lock: LockManager, filename: string) {
+  let lastReport = 0;
+  return (job: string, progress: FfmpegProgress) => {
+    const now = Date.now();
+    if (progress.percent < 100 && now - lastReport < PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    lastReport = now;
+
+    const percent = Math.round(progress.percent);
+    const eta =
+      progress.etaSeconds !== undefined
+        ? ` · ETA ${Math.round(progress.etaSeconds)}s`
+        : "";
+    const speed = progress.speed ? ` · ${progress.speed}x` : "";
+    console.log(`⏳ [FFMPEG] ${filename} (${job}) ${percent}%${eta}${speed}`);
+
+    lock.update(filename, {
+      renderProgress: {
+        job,
+        percent,
+        etaSeconds: progress.etaSeconds,
+        speed: progress.speed,
+      },
+    });
+  };
+}
+
+// Fields produced by each stage. Resetting a stage also forgets
+// everything after it, since later results were derived from it.
+export const STAGES: Stage[] = ["analysis", "render", "upload"];
+const STAGE_FIELDS: Record<Stage, (keyof VideoState)[]> = {
+  analysis: ["geminiAnalysis", "analysisWindows", "approvedAt"],
+  render: [
+    "outputFilePath",
+    "verticalOutputPath",
+    "renderedProfile",
+    "selection",
+    "montageDuration",
+    "chapters",
+    "thumbnailPath",
+  ],
+  upload: [
+    "uploadId",
+    "shortUploadId",
+    "uploadSession",
+    "shortUploadSession",
+    "youtubeMetadata",
+    "publishAt",
+    "publications",
+  ],
+};
+
+// Clears the results of `from` and later stages plus the retry
+// bookkeeping, leaving the clip PENDING
+export function resetStages(lock: LockManager, filename: string, from: Stage) {
+  const updates: Partial<VideoState> = {
+    status: "PENDING",
+    attempts: undefined,
+    retryStage: undefined,
+    nextRetryAt: undefined,
+    errorMessage: undefined,
+    renderProgress: undefined,
+  };
+  for (const stage of STAGES.slice(STAGES.indexOf(from))) {
+    for (const field of STAGE_FIELDS[stage]) {
+      (updates as Record<string, undefined>)[field] = undefined;
+    }
+  }
+  lock.update(filename, updates);
+}
+
+// --- STAGES ---
+
+// Runs the analyzer plus the optional local passes. Only records the billed
+// model calls on the entry; the result is left to the caller. Throws a
+// BudgetExceededError instead when a Gemini budget is used up.
+export async function analyzeClip(
+  ctx: PipelineContext,
+  filePath: string,
+  filename: string,
+): Promise<AnalysisResult> {
+  const { config, analyzer, lock } = ctx;
+  if (analyzer.name === "gemini") {
+    checkBudget(lock, config.analyzer?.gemini?.budget);
+  }
+  console.log(`🤖 [ANALYSIS] Analyzing video with ${analyzer.name}...`);
+
+  // The kill feed analyzer reads the original frames itself
+  const onUsage: UsageListener = (usage) => lock.recordUsage(filename, usage);
+  let analysis =
+    analyzer.name === "killfeed"
+      ? await analyzeWithValidation(
+          analyzer,
+          filePath,
+          config.analyzer?.maxAttempts,
+          onUsage,
+        )
+      : await analyzeWindows(ctx, filePath, filename, onUsage);
+
+  // Cross-check with the local kill feed detector
+  if (config.killFeed?.refine && analyzer.name !== "killfeed") {
+    console.log(`🎯 [KILLFEED] Detecting kills...`);
+    const detected = await detectKills(filePath, config.killFeed);
+    analysis = refineWithKillFeed(analysis, detected);
+  }
+
+  // Keep reactions the model missed, down-rank unsupported ones
+  if (config.audioReactions?.enabled) {
+    console.log(`🔊 [AUDIO] Detecting reactions...`);
+    const candidates = await detectReactions(filePath, config.audioReactions);
+    analysis = mergeAudioCandidates(
+      analysis,
+      candidates,
+      config.audioReactions,
+    );
+  }
+
+  return analysis;
+}
+
+// The model gets small copies of the clip (see analysis-proxy.ts): one, or
+// one per window for long recordings. Windows run one at a time in the
+// clip's own slot, and in parallel in queue slots nobody else needs.
+// Finished windows are kept on the entry until the whole clip is done, so
+// a crash only redoes the others. Timestamps are mapped back to the clip,
+// for the local passes and the montage.
+async function analyzeWindows(
+  ctx: PipelineContext,
+  filePath: string,
+  filename: string,
+  onUsage: UsageListener,
+): Promise<AnalysisResult> {
+  const { config, analyzer, lock } = ctx;
+  const proxyOptions = config.analyzer?.proxy ?? {};
+  const segments = await proxySegments(filePath, proxyOptions);
+  const windows = splitWindows(proxyLength(segments), config.analyzer?.windows);
+
+  // A short clip without proxy is sent as it is. Windows are always cut as
+  // proxies: sending long originals is what they avoid.
+  if (proxyOptions.enabled === false && windows.length === 1) {
+    return analyzeWithValidation(
+      analyzer,
+      filePath,
+      config.analyzer?.maxAttempts,
+      onUsage,
+    );
+  }
+
+  if (windows.length > 1) {
+    console.log(
+      `🪟 [ANALYSIS] ${windows.length} windows of up to ${Math.round(windows[0]!.end)}s`,
+    );
+  }
+  const cached = lock.get(filename)?.analysisWindows ?? [];
+  const results = await mapInSlots(
+    windows,
+    ctx.slots,
+    async (window, i): Promise<WindowAnalysis> => {
+      const parts = windowSegments(segments, window.start, window.end);
+      const done = cached.find(
+        (c) => JSON.stringify(c.segments) === JSON.stringify(parts),
+      );
+      if (done) {
+        console.log(`⏩ [ANALYSIS] Window ${i + 1} done before, reusing it.`);
+        return done;
+      }
+
+      const suffix = windows.length > 1 ? `proxy_${i + 1}` : "proxy";
+      const proxy = await createProxy(filePath, parts, proxyOptions, suffix);
+      let result: AnalysisResult;
+      try {
+        result = await analyzeWithValidation(
+          analyzer,
+          proxy.path,
+          config.analyzer?.maxAttempts,
+          onUsage,
+        );
+      } finally {
+        await removeProxy(proxy);
+      }
+
+      const analysed = {
+        segments: parts,
+        result: toSourceTimeline(result, parts),
+      };
+      // Windows finish in any order; re-read to keep the others
+      lock.update(filename, {
+        analysisWindows: [
+          ...(lock.get(filename)?.analysisWindows ?? []),
+          analysed,
+        ],
+      });
+      return analysed;
+    },
+  );
+
+  const analysis = mergeWindows(results);
+  if (results.length > 1 && analyzer.generateTitle) {
+    try {
+      analysis.title = await analyzer.generateTitle(
+        results.map((w) => w.result.title),
+        analysis.highlights.map((h) => h.description),
+        onUsage,
+      );
+    } catch (error: any) {
+      console.log(
+        `⚠️ Title generation failed (${error.message}), using "${analysis.title}".`,
+      );
+    }
+  }
+
+  lock.update(filename, { analysisWindows: undefined });
+  return analysis;
+}
+
+// Profile a clip renders with: forced per entry, then the upload profile
+// (when uploading), then per-clip/global config
+export function renderProfileFor(
+  ctx: OutputContext,
+  filename: string,
+  state?: VideoState,
+): string {
+  const { config } = ctx;
+  const uploading = destinationsFor(config).length > 0;
+  return (
+    state?.renderProfile ??
+    (uploading ? config.render?.uploadProfile : undefined) ??
+    profileNameFor(filename, config.render)
+  );
+}
+
+// Highlights that go into the montage: all of them, or with `selection`
+// the best ones for the target length. The choice is recorded on the
+// entry (`selection`), so the review shows what would be left out.
+export function selectForMontage(
+  ctx: OutputContext,
+  filename: string,
+  analysis: AnalysisResult,
+  profileName: string,
+): Highlight[] {
+  const { config, lock } = ctx;
+  // Compilations pick their highlights themselves (compilation.maxSeconds)
+  if (!config.selection?.enabled || lock.get(filename)?.sources) {
+    return analysis.highlights;
+  }
+
+  const profile = resolveRenderProfile(profileName, config.render);
+  const selection = selectHighlights(
+    analysis.highlights,
+    config.selection,
+    profile,
+  );
+  lock.update(filename, { selection });
+  console.log(
+    `🏆 [SELECT] ${selection.chosen.length}/${analysis.highlights.length} highlights, about ${selection.seconds}s`,
+  );
+  return selection.chosen;
+}
+
+// Renders the montage (and vertical cut) and records the outputs
+export async function renderClip(
+  ctx: OutputContext,
+  filePath: string,
+  filename: string,
+  analysis: AnalysisResult,
+  profileName: string,
+  signal?: AbortSignal,
+): Promise<MontageResult> {
+  const { config, lock } = ctx;
+  const state = lock.get(filename);
+  const profile = resolveRenderProfile(profileName, config.render);
+  console.log(`✂️ [FFMPEG] Rendering montage (${profileName})...`);
+
+  const safeTitle = sanitizeFilename(analysis.title);
+  // Ensure we don't overwrite original files, add _montage suffix
+  const outputName = `${safeTitle}_montage`;
+
+  const montage = await createMontage(
+    filePath,
+    selectForMontage(ctx, filename, analysis, profileName),
+    outputName,
+    profile,
+    {
+      signal,
+      onProgress: progressReporter(lock, filename),
+      title: analysis.title,
+      overlays: config.overlays,
+      vertical: config.vertical,
+      thumbnail:
+        destinationsFor(config).includes("youtube") &&
+        config.youtube?.thumbnail !== false,
+      music: {
+        ...config.music,
+        enabled: config.music?.enabled && !ctx.noMusic && !state?.noMusic,
+      },
+    },
+  );
+
+  lock.update(filename, {
+    status: "RENDERED",
+    outputFilePath: montage.outputPath,
+    verticalOutputPath: montage.verticalPath,
+    renderedProfile: profileName,
+    montageDuration: montage.duration,
+    chapters: montage.chapters,
+    thumbnailPath: montage.thumbnailPath,
+    renderProgress: undefined,
+  });
+  ctx.events?.emit("render.done", {
+    filename,
+    profile: profileName,
+    outputPath: montage.outputPath,
+    verticalPath: montage.verticalPath,
+  });
+  console.log(`💾 [SAVED] ${montage.outputPath}`);
+  if (montage.verticalPath) console.log(`💾 [SAVED] ${montage.verticalPath}`);
+
+  return montage;
+}
+
+// Runs every configured destination that has not published the entry
+// yet (or just `only`), recording each outcome under `publications`. A
+// failing destination doesn't stop the others; the first error is rethrown
+// afterwards so the retry policy applies, and a retry skips what succeeded.
+export async function publishClip(
+  ctx: OutputContext,
+  filename: string,
+  only?: string,
+) {
+  const { config, lock } = ctx;
+  const state = lock.get(filename);
+  if (!state?.outputFilePath || !state.geminiAnalysis) {
+    throw new Error(`${filename} has no render to publish`);
+  }
+
+  let publishers = createPublishers(config);
+  if (only) {
+    publishers = publishers.filter((p) => p.name === only);
+    if (publishers.length === 0) {
+      throw new Error(`"${only}" is not in publish.destinations`);
+    }
+  }
+
+  let firstError: Error | undefined;
+  for (const publisher of publishers) {
+    const current = lock.get(filename)!;
+    const previous = current.publications?.[publisher.name];
+    if (previous?.status === "PUBLISHED") {
+      console.log(`⏩ [PUBLISH] Already on ${publisher.name}.`);
+      continue;
+    }
+
+    let publication: Publication;
+    try {
+      const { url } = await publisher.publish(filename, current, {
+        lock,
+        analyzer: ctx.analyzer,
+      });
+      publication = {
+        status: "PUBLISHED",
+        url,
+        publishedAt: new Date().toISOString(),
+      };
+      ctx.events?.emit("upload.success", {
+        filename,
+        destination: publisher.name,
+        url,
+      });
+    } catch (error: any) {
+      console.error(`⚠️ [PUBLISH] ${publisher.name} failed: ${error.message}`);
+      publication = { status: "FAILED", errorMessage: error.message };
+      firstError ??= error;
+      ctx.events?.emit("upload.failure", {
+        filename,
+        destination: publisher.name,
+        error: error.message,
+      });
+    }
+
+    // Re-read: the publisher may have saved progress on the entry
+    lock.update(filename, {
+      publications: {
+        ...lock.get(filename)!.publications,
+        [publisher.name]: publication,
+      },
+    });
+  }
+
+  if (firstError) throw firstError;
+
+  // With `only`, other destinations may still be outstanding
+  const { publications } = lock.get(filename)!;
+  const done = destinationsFor(config).every(
+    (name) => publications?.[name]?.status === "PUBLISHED",
+  );
+  if (done) {
+    lock.update(filename, { status: "UPLOADED", nextRetryAt: undefined });
+  }
+}
+
+// --- CORE PIPELINE ---
+
+export async function processVideo(
+  ctx: PipelineContext,
+  filePath: string,
+  filename: string,
+  signal?: AbortSignal,
+) {
+  // Overrides of the clip's watch folder apply to every stage
+  ctx = { ...ctx, config: configFor(ctx.config, filePath) };
+  const { config, lock } = ctx;
+  console.log(`\n🎬 [START] Processing: ${filename}`);
+
+  // 1. CHECK STATE (Resume Capability)
+  let state = lock.get(filename);
+
+  if (state?.status === "UPLOADED") {
+    const published = Object.keys(state.publications ?? {});
+    console.log(
+      `✅ [SKIP] Already published: ${published.join(", ") || state.uploadId}`,
+    );
+    return;
+  }
+
+  if (state?.status === "SKIPPED") {
+    console.log(`⏭️ [SKIP] Marked as SKIPPED (${state.note ?? "backfill"})`);
+    return;
+  }
+
+  if (state?.status === "FAILED") {
+    console.log(
+      `❌ [SKIP] marked as FAILED in the state store. Use \`clip retry\` to try again.`,
+    );
+    return;
+  }
+
+  if (
+    state?.status === "RETRY_SCHEDULED" &&
+    state.nextRetryAt &&
+    new Date(state.nextRetryAt).getTime() > Date.now()
+  ) {
+    console.log(
+      `⏳ [SKIP] ${state.retryStage} retry due at ${state.nextRetryAt}`,
+    );
+    return;
+  }
+
+  let stage: Stage = "analysis";
+
+  try {
+    // --- STEP 1: ANALYSIS ---
+    let analysis = state?.geminiAnalysis;
+
+    if (!analysis) {
+      lock.update(filename, { status: "ANALYZING" });
+      analysis = await analyzeClip(ctx, filePath, filename);
+
+      // Update lock with the expensive result
+      lock.update(filename, {
+        geminiAnalysis: analysis,
+        status: "ANALYZING", // Keep analyzing until we determine next step
+      });
+      if (analysis.highlights.length > 0) {
+        ctx.events?.emit("analysis.done", {
+          filename,
+          title: analysis.title,
+          highlights: analysis.highlights.length,
+        });
+      }
+    } else {
+      console.log(`⏩ [ANALYSIS] Using cached analysis from the state store.`);
+    }
+
+    // Check if highlights exist
+    if (!analysis || analysis.highlights.length === 0) {
+      console.log(`⚠️ [STOP] No highlights found.`);
+      ctx.events?.emit("analysis.no_highlights", { filename });
+      lock.update(filename, {
+        status: "FAILED",
+        errorMessage: "No highlights found",
+      });
+      return;
+    }
+
+    console.log(
+      `✨ Title: "${analysis.title}" (${analysis.highlights.length} clips)`,
+    );
+
+    // Review mode: nothing is rendered until the highlights are approved
+    if (config.review?.enabled && !state?.approvedAt) {
+      selectForMontage(
+        ctx,
+        filename,
+        analysis,
+        renderProfileFor(ctx, filename, state),
+      );
+      console.log(`👀 [REVIEW] Waiting for approval in the dashboard.`);
+      lock.update(filename, { status: "AWAITING_REVIEW" });
+      return;
+    }
+
+    // --- STEP 2: RENDERING (FFMPEG) ---
+    stage = "render";
+    let outputPath = state?.outputFilePath;
+    const profileName = renderProfileFor(ctx, filename, state);
+
+    // Renders from before profiles existed used the default one
+    const renderedProfile = state?.renderedProfile ?? DEFAULT_PROFILE;
+    if (outputPath && renderedProfile !== profileName) {
+      console.log(
+        `🔁 [FFMPEG] Cached render uses "${renderedProfile}", re-rendering with "${profileName}".`,
+      );
+      outputPath = undefined;
+    }
+
+    if (!outputPath) {
+      await renderClip(ctx, filePath, filename, analysis, profileName, signal);
+    } else {
+      console.log(`⏩ [FFMPEG] Using cached video file.`);
+    }
+
+    // --- STEP 3: PUBLISH (YOUTUBE, FOLDER, S3, DISCORD) ---
+    // Only proceed if a destination is configured
+    if (destinationsFor(config).length > 0) {
+      stage = "upload";
+      await publishClip(ctx, filename);
+    } else {
+      console.log(
+        `ℹ️ [INFO] No publishing destinations configured. Stopping at Render.`,
+      );
+      lock.update(filename, {
+        status: "RENDERED_NO_UPLOAD",
+        nextRetryAt: undefined,
+      });
+    }
+  } catch (error: any) {
+    if (error.name === "AbortError") {
+      console.log(`🛑 [CANCELLED] ${filename}`);
+      lock.update(filename, {
+        status: "PENDING",
+        errorMessage: error.message,
+        renderProgress: undefined,
+      });
+      return;
+    }
+
+    // Not a failure: the clip waits for the budget to reset
+    if (error instanceof BudgetExceededError) {
+      console.log(
+        `⏸️ [BUDGET] ${error.message}. ${filename} will be analysed after ${error.resumeAt}.`,
+      );
+      lock.update(filename, {
+        status: "RETRY_SCHEDULED",
+        retryStage: stage,
+        nextRetryAt: error.resumeAt,
+        errorMessage: error.message,
+      });
+      return;
+    }
+
+    console.error(
+      `💥 [ERROR] Pipeline failed for ${filename} (${stage}):`,
+      error,
+    );
+    handleFailure(ctx, filename, stage, error);
+  }
+}
+
+// --- RETRIES ---
+// Transient errors schedule another attempt of the failed stage with
+// exponential backoff; permanent ones (or too many attempts) are terminal.
+function handleFailure(
+  ctx: PipelineContext,
+  filename: string,
+  stage: Stage,
+  error: any,
+) {
+  const { config, lock } = ctx;
+  const policy = policyFor(stage, config.retry);
+  const state = lock.get(filename);
+  const attempt = (state?.attempts?.[stage] ?? 0) + 1;
+  const attempts = { ...state?.attempts, [stage]: attempt };
+  const errorMessage = error.message || "Unknown Error";
+
+  if (isTransient(error) && attempt < policy.maxAttempts) {
+    const delay = retryDelaySeconds(policy, attempt);
+    const nextRetryAt = new Date(Date.now() + delay * 1000).toISOString();
+    console.log(
+      `🔁 [RETRY] ${stage} attempt ${attempt}/${policy.maxAttempts} failed, retrying in ${delay}s`,
+    );
+    lock.update(filename, {
+      status: "RETRY_SCHEDULED",
+      retryStage: stage,
+      attempts,
+      nextRetryAt,
+      errorMessage,
+    });
+    ctx.events?.emit("clip.failed", {
+      filename,
+      stage,
+      error: errorMessage,
+      nextRetryAt,
+    });
+    return;
+  }
+
+  lock.update(filename, {
+    status: stage === "upload" ? "UPLOAD_FAILED" : "FAILED",
+    retryStage: stage,
+    attempts,
+    nextRetryAt: undefined,
+    errorMessage,
+  });
+  ctx.events?.emit("clip.failed", { filename, stage, error: errorMessage });
+}
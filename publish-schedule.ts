@@ -0,0 +1,61 @@
+export interface PublishSchedule {
+  enabled?: boolean;
+  // Local times ("HH:MM") a video goes public at, one video per slot
+  slots: string[];
+  // Days of the week with slots (0 = Sunday); every day when unset
+  days?: number[];
+  // Never schedule sooner than this after the upload
+  minLeadMinutes?: number;
+}
+
+const DEFAULT_LEAD_MINUTES = 30;
+// Two weeks always contains a slot when `days` isn't empty
+const SEARCH_DAYS = 14;
+
+function parseSlot(slot: string): [number, number] {
+  const match = slot.match(/^(\d{1,2}):(\d{2})$/);
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+  if (!match || hours > 23 || minutes > 59) {
+    throw new Error(`Invalid youtube.schedule slot "${slot}", use HH:MM`);
+  }
+  return [hours, minutes];
+}
+
+// First slot after both the minimum lead time and every slot already
+// taken, so scheduled videos keep their upload order and the cadence.
+export function nextPublishSlot(
+  schedule: PublishSchedule,
+  taken: string[],
+  now = new Date(),
+): Date {
+  const slots = schedule.slots
+    .map(parseSlot)
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (slots.length === 0) {
+    throw new Error("youtube.schedule.slots is empty");
+  }
+
+  const lead = (schedule.minLeadMinutes ?? DEFAULT_LEAD_MINUTES) * 60 * 1000;
+  const earliest = Math.max(
+    now.getTime() + lead,
+    ...taken.map((t) => new Date(t).getTime() + 1),
+  );
+
+  const day = new Date(earliest);
+  day.setHours(0, 0, 0, 0);
+  for (let i = 0; i < SEARCH_DAYS; i++) {
+    if (!schedule.days || schedule.days.includes(day.getDay())) {
+      for (const [hours, minutes] of slots) {
+        const candidate = new Date(day);
+        candidate.setHours(hours, minutes);
+        if (candidate.getTime() >= earliest) {
+          return candidate;
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  throw new Error("youtube.schedule.days has no valid day (0-6)");
+}
@@ -0,0 +1,62 @@
+import {
+  DiscordPublisher,
+  type DiscordPublisherOptions,
+} from "./discord-publisher";
+import {
+  FolderPublisher,
+  type FolderPublisherOptions,
+} from "./folder-publisher";
+import type { Publisher } from "./publisher";
+import { S3Publisher, type S3PublisherOptions } from "./s3-publisher";
+import { YouTubePublisher } from "./youtube-publisher";
+import type { Config } from "./config";
+
+export type Destination = "youtube" | "folder" | "s3" | "discord";
+
+export interface PublishConfig {
+  // Run in this order; put discord last so it can link the others
+  destinations?: Destination[];
+  folder?: FolderPublisherOptions;
+  s3?: S3PublisherOptions;
+  discord?: DiscordPublisherOptions;
+}
+
+// Without `publish.destinations`, YouTube when it is configured (the
+// behaviour before other destinations existed)
+export function destinationsFor(config: Config): Destination[] {
+  return (
+    config.publish?.destinations ??
+    (config.youtube?.clientId ? ["youtube"] : [])
+  );
+}
+
+export function createPublishers(config: Config): Publisher[] {
+  return destinationsFor(config).map((destination) => {
+    switch (destination) {
+      case "youtube":
+        if (!config.youtube) {
+          throw new Error("'youtube' section is missing in config.json");
+        }
+        return new YouTubePublisher(config.youtube);
+      case "folder":
+        if (!config.publish?.folder) {
+          throw new Error("'publish.folder' section is missing in config.json");
+        }
+        return new FolderPublisher(config.publish.folder);
+      case "s3":
+        if (!config.publish?.s3) {
+          throw new Error("'publish.s3' section is missing in config.json");
+        }
+        return new S3Publisher(config.publish.s3);
+      case "discord":
+        if (!config.publish?.discord) {
+          throw new Error(
+            "'publish.discord' section is missing in config.json",
+          );
+        }
+        return new DiscordPublisher(config.publish.discord);
+      default:
+        throw new Error(`Unknown publish destination: ${destination}`);
+    }
+  });
+}
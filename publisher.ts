@@ -0,0 +1,31 @@
+import type { Analyzer } from "./analyzer";
+import type { LockManager, VideoState } from "./lock-manager";
+
+// Outcome of one destination for one clip, kept per destination on the
+// lock entry (`publications`)
+export interface Publication {
+  status: "PUBLISHED" | "FAILED";
+  url?: string; // Where it can be watched or downloaded
+  errorMessage?: string;
+  publishedAt?: string;
+}
+
+export interface PublishContext {
+  lock: LockManager;
+  // For generated descriptions (YouTube); optional
+  analyzer?: Analyzer;
+}
+
+// Every publishing destination (YouTube, folder, S3, Discord, ...)
+// implements this. The pipeline only ever talks to Publishers.
+export interface Publisher {
+  // Key of the destination in `publish.destinations` and `publications`
+  readonly name: string;
+  // Publishes the rendered outputs of the entry. `state.publications` holds
+  // the destinations that already ran, so later ones can link to them.
+  publish(
+    filename: string,
+    state: VideoState,
+    ctx: PublishContext,
+  ): Promise<{ url?: string }>;
+}
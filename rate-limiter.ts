@@ -0,0 +1,37 @@
+const WINDOW_MS = 60_000;
+
+// Client-side request cap: at most `requestsPerMinute` requests start in
+// any 60-second window. Share one instance between everything that calls
+// the same API; waiting callers are served in order.
+export class RateLimiter {
+  private starts: number[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private requestsPerMinute: number,
+    private label = "RATE",
+  ) {}
+
+  // Resolves when the caller may send its request
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.wait());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async wait() {
+    let now = Date.now();
+    this.starts = this.starts.filter((start) => now - start < WINDOW_MS);
+
+    if (this.starts.length >= this.requestsPerMinute) {
+      const delay = this.starts[0]! + WINDOW_MS - now;
+      console.log(
+        `⏳ [${this.label}] ${this.requestsPerMinute} requests/minute reached, waiting ${Math.ceil(delay / 1000)}s`,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      now = Date.now();
+      this.starts = this.starts.filter((start) => now - start < WINDOW_MS);
+    }
+    this.starts.push(now);
+  }
+}
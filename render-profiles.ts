@@ -0,0 +1,106 @@
+export interface RenderProfile {
+  // Seconds added before and after each highlight
+  bufferSeconds: number;
+  // Any ffmpeg xfade transition (fade, wipeleft, slideup, dissolve, ...)
+  transition: string;
+  transitionDuration: number;
+  fps: number;
+  // e.g. "1920x1080"; omit to keep the source resolution
+  resolution?: string;
+  videoCodec: string;
+  preset?: string;
+  // Constant quality (crf) or a fixed bitrate (e.g. "12M")
+  crf?: number;
+  videoBitrate?: string;
+  audioCodec: string;
+  audioBitrate: string;
+  audioSampleRate?: number;
+}
+
+export interface RenderConfig {
+  // Profile used when nothing more specific is set
+  profile?: string;
+  // Profile for the final encode when uploading (re-renders previews)
+  uploadProfile?: string;
+  // Filename -> profile name
+  perClip?: Record<string, string>;
+  // Custom profiles; `extends` names a profile to start from
+  profiles?: Record<string, Partial<RenderProfile> & { extends?: string }>;
+}
+
+export const DEFAULT_PROFILE = "youtube-1080p60";
+
+export const BUILTIN_PROFILES: Record<string, RenderProfile> = {
+  "youtube-1080p60": {
+    bufferSeconds: 2,
+    transition: "fade",
+    transitionDuration: 0.5,
+    fps: 60,
+    videoCodec: "libx264", // Generic H.264 encoder
+    preset: "slow", // Better compression
+    crf: 18, // Visually lossless
+    audioCodec: "aac",
+    audioBitrate: "320k", // High quality audio
+  },
+  "fast-preview": {
+    bufferSeconds: 2,
+    transition: "fade",
+    transitionDuration: 0.5,
+    fps: 30,
+    resolution: "1280x720",
+    videoCodec: "libx264",
+    preset: "ultrafast",
+    crf: 30,
+    audioCodec: "aac",
+    audioBitrate: "128k",
+  },
+  "archive-hevc": {
+    bufferSeconds: 2,
+    transition: "fade",
+    transitionDuration: 0.5,
+    fps: 60,
+    videoCodec: "libx265",
+    preset: "slow",
+    crf: 20,
+    audioCodec: "aac",
+    audioBitrate: "320k",
+    audioSampleRate: 48000,
+  },
+};
+
+// Resolves a profile by name, following `extends` chains of custom profiles.
+export function resolveRenderProfile(
+  name: string = DEFAULT_PROFILE,
+  config: RenderConfig = {},
+  seen: Set<string> = new Set(),
+): RenderProfile {
+  if (seen.has(name)) {
+    throw new Error(`Render profile "${name}" extends itself`);
+  }
+  seen.add(name);
+
+  const custom = config.profiles?.[name];
+  if (custom) {
+    const { extends: base, ...overrides } = custom;
+    // Without `extends`, a custom profile tweaks the built-in of the same
+    // name, or the default one
+    const parent = base
+      ? resolveRenderProfile(base, config, seen)
+      : (BUILTIN_PROFILES[name] ?? BUILTIN_PROFILES[DEFAULT_PROFILE]!);
+    return { ...parent, ...overrides };
+  }
+
+  const builtin = BUILTIN_PROFILES[name];
+  if (!builtin) {
+    throw new Error(`Unknown render profile: ${name}`);
+  }
+  return builtin;
+}
+
+// Picks the profile name for a clip: per-clip > global > default.
+export function profileNameFor(
+  filename: string,
+  config: RenderConfig = {},
+): string {
+  return config.perClip?.[filename] ?? config.profile ?? DEFAULT_PROFILE;
+}
@@ -0,0 +1,193 @@
+import { afterAll, afterEach, beforeAll, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resumableUpload, type ResumableSession } from "./resumable-upload";
+
+const CHUNK = 256 * 1024;
+
+// Stand-in for the upload endpoint. Sessions keep the bytes they received;
+// the connection can be dropped in the middle of a chunk, and the server
+// then comes back on the same port like one that was briefly unreachable.
+class StandIn {
+  sessions = new Map<string, Buffer>();
+  contentRanges: string[] = [];
+  // Chunk (0-based, counted over the whole run) during which the
+  // connection breaks, after this many of its bytes arrived
+  dropChunk?: { index: number; keepBytes: number };
+  private chunks = 0;
+  private server = Bun.serve({ port: 0, fetch: (req) => this.handle(req) });
+  private port = this.server.port;
+  readonly url = `http://127.0.0.1:${this.port}`;
+
+  restart() {
+    this.server = Bun.serve({
+      port: this.port,
+      fetch: (req) => this.handle(req),
+    });
+  }
+
+  stop() {
+    this.server.stop(true);
+  }
+
+  private async handle(req: Request): Promise<Response> {
+    const { pathname } = new URL(req.url);
+    if (req.method === "POST" && pathname === "/init") {
+      const id = String(this.sessions.size + 1);
+      this.sessions.set(id, Buffer.alloc(0));
+      return new Response(null, {
+        headers: { Location: `${this.url}/session/${id}` },
+      });
+    }
+
+    const id = pathname.match(/^\/session\/(\w+)$/)?.[1];
+    let received = id ? this.sessions.get(id) : undefined;
+    if (req.method !== "PUT" || !id || !received) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const range = req.headers.get("content-range") ?? "";
+    const body = Buffer.from(await req.arrayBuffer());
+    const put = range.match(/^bytes (\d+)-\d+\/(\d+)$/);
+    const size = Number(put?.[2] ?? range.match(/^bytes \*\/(\d+)$/)?.[1]);
+
+    if (put) {
+      this.contentRanges.push(range);
+      if (Number(put[1]) !== received.length) {
+        return new Response("Wrong offset", { status: 400 });
+      }
+      if (this.dropChunk && this.chunks++ === this.dropChunk.index) {
+        const keep = body.subarray(0, this.dropChunk.keepBytes);
+        this.sessions.set(id, Buffer.concat([received, keep]));
+        this.dropChunk = undefined;
+        this.server.stop(true);
+        return new Promise(() => {}); // Never answered
+      }
+      received = Buffer.concat([received, body]);
+      this.sessions.set(id, received);
+    }
+
+    if (received.length === size) return Response.json({ id: "video-1" });
+    return new Response(null, {
+      status: 308,
+      headers:
+        received.length > 0 ? { Range: `bytes=0-${received.length - 1}` } : {},
+    });
+  }
+}
+
+let dir: string;
+let filePath: string;
+let content: Buffer;
+let standIn: StandIn;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "resumable-upload-"));
+  filePath = join(dir, "montage.mp4");
+  content = Buffer.from(
+    crypto.getRandomValues(new Uint8Array(4 * CHUNK + 1000)),
+  );
+  await Bun.write(filePath, content);
+});
+
+afterEach(() => standIn.stop());
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// Upload options against the stand-in; `saved` collects every session
+// reported through onSession
+function uploadOptions(session?: ResumableSession) {
+  const saved: ResumableSession[] = [];
+  return {
+    saved,
+    options: {
+      initUrl: `${standIn.url}/init`,
+      accessToken: async () => "token",
+      metadata: { snippet: { title: "Ace" } },
+      contentType: "video/mp4",
+      chunkSize: CHUNK,
+      session,
+      onSession: (s: ResumableSession) => saved.push(s),
+    },
+  };
+}
+
+test("uploads the file in chunks", async () => {
+  standIn = new StandIn();
+  const { options } = uploadOptions();
+
+  expect(await resumableUpload(filePath, options)).toEqual({ id: "video-1" });
+  expect(standIn.sessions.get("1")!.equals(content)).toBe(true);
+  expect(standIn.contentRanges).toHaveLength(5);
+});
+
+test("resumes from the offset the server reports after a dropped connection", async () => {
+  standIn = new StandIn();
+  standIn.dropChunk = { index: 2, keepBytes: 100_000 };
+  const first = uploadOptions();
+
+  await expect(resumableUpload(filePath, first.options)).rejects.toThrow();
+  // Two chunks were acknowledged; the server also kept part of the third
+  const session = first.saved[first.saved.length - 1]!;
+  expect(session.offset).toBe(2 * CHUNK);
+  expect(standIn.sessions.get("1")!.length).toBe(2 * CHUNK + 100_000);
+
+  standIn.restart();
+  standIn.contentRanges = [];
+  const second = uploadOptions(session);
+  expect(await resumableUpload(filePath, second.options)).toEqual({
+    id: "video-1",
+  });
+
+  expect(standIn.sessions.size).toBe(1);
+  expect(standIn.contentRanges[0]).toStartWith(`bytes ${2 * CHUNK + 100_000}-`);
+  expect(standIn.sessions.get("1")!.equals(content)).toBe(true);
+});
+
+test("starts a new session when the saved one expired", async () => {
+  standIn = new StandIn();
+  const expired = {
+    uri: `${standIn.url}/session/gone`,
+    size: content.length,
+    offset: CHUNK,
+  };
+  const { options, saved } = uploadOptions(expired);
+
+  expect(await resumableUpload(filePath, options)).toEqual({ id: "video-1" });
+  expect(saved[0]).toEqual({
+    uri: `${standIn.url}/session/1`,
+    size: content.length,
+    offset: 0,
+  });
+  expect(standIn.contentRanges[0]).toStartWith("bytes 0-");
+  expect(standIn.sessions.get("1")!.equals(content)).toBe(true);
+});
+
+test("returns the resource when the upload had already finished", async () => {
+  standIn = new StandIn();
+  const first = uploadOptions();
+  await resumableUpload(filePath, first.options);
+  standIn.contentRanges = [];
+
+  const session = first.saved[first.saved.length - 1]!;
+  expect(
+    await resumableUpload(filePath, uploadOptions(session).options),
+  ).toEqual({ id: "video-1" });
+  expect(standIn.contentRanges).toHaveLength(0);
+});
+
+test("starts over when the file changed since the session opened", async () => {
+  standIn = new StandIn();
+  const stale = {
+    uri: `${standIn.url}/session/old`,
+    size: content.length - 1,
+    offset: CHUNK,
+  };
+
+  await resumableUpload(filePath, uploadOptions(stale).options);
+  expect(standIn.contentRanges[0]).toStartWith("bytes 0-");
+  expect(standIn.sessions.size).toBe(1);
+});
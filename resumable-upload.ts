@@ -0,0 +1,157 @@
+// Resumable upload protocol used by the YouTube (and other Google) APIs:
+// POST the metadata to open a session, then PUT the file in chunks to the
+// session URI. The server acknowledges each chunk with 308 + `Range`; after
+// a crash, an empty PUT asks it how many bytes it already has.
+
+// Saved in the state store so a restarted process continues the upload
+export interface ResumableSession {
+  uri: string;
+  size: number; // File size the session was opened for
+  offset: number; // Bytes acknowledged by the server
+}
+
+export interface ResumableUploadOptions {
+  // Endpoint opening the session (…?uploadType=resumable)
+  initUrl: string;
+  // Called before every request, so long uploads get fresh tokens
+  accessToken: () => Promise<string>;
+  metadata: unknown;
+  contentType: string;
+  // Multiple of 256 KiB, as the protocol requires
+  chunkSize: number;
+  session?: ResumableSession;
+  // Called when a session opens and after every acknowledged chunk
+  onSession?: (session: ResumableSession) => void;
+}
+
+const CHUNK_GRANULARITY = 256 * 1024;
+
+// `status` lets the retry policy tell quota/5xx errors from permanent ones
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+async function failure(res: Response, what: string): Promise<UploadError> {
+  return new UploadError(
+    `${what} failed: ${res.status} ${await res.text()}`,
+    res.status,
+  );
+}
+
+// "bytes=0-1048575" → 1048576 (next byte to send)
+function nextOffset(res: Response): number {
+  const match = res.headers.get("range")?.match(/bytes=\d+-(\d+)/);
+  return match ? Number(match[1]) + 1 : 0;
+}
+
+async function openSession(
+  size: number,
+  options: ResumableUploadOptions,
+): Promise<ResumableSession> {
+  const res = await fetch(options.initUrl, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${await options.accessToken()}`,
+      "Content-Type": "application/json; charset=UTF-8",
+      "X-Upload-Content-Length": String(size),
+      "X-Upload-Content-Type": options.contentType,
+    },
+    body: JSON.stringify(options.metadata),
+  });
+  const uri = res.headers.get("location");
+  if (!res.ok || !uri) {
+    throw await failure(res, "Opening upload session");
+  }
+  return { uri, size, offset: 0 };
+}
+
+// Asks the server where to continue. Returns the finished resource when the
+// upload already completed, or undefined when the session expired.
+async function querySession(
+  session: ResumableSession,
+  options: ResumableUploadOptions,
+): Promise<{ offset: number } | { done: unknown } | undefined> {
+  const res = await fetch(session.uri, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${await options.accessToken()}`,
+      "Content-Range": `bytes */${session.size}`,
+    },
+  });
+
+  if (res.status === 308) return { offset: nextOffset(res) };
+  if (res.ok) return { done: await res.json() };
+  if (res.status === 404 || res.status === 410) return undefined;
+  throw await failure(res, "Querying upload session");
+}
+
+// Uploads `filePath` and returns the created resource (JSON body of the
+// final response).
+export async function resumableUpload(
+  filePath: string,
+  options: ResumableUploadOptions,
+): Promise<any> {
+  const file = Bun.file(filePath);
+  const size = file.size;
+  const chunkSize =
+    Math.max(1, Math.round(options.chunkSize / CHUNK_GRANULARITY)) *
+    CHUNK_GRANULARITY;
+
+  // A session for another version of the file (re-render) can't be reused
+  let session =
+    options.session?.size === size ? { ...options.session } : undefined;
+
+  if (session) {
+    const status = await querySession(session, options);
+    if (status && "done" in status) return status.done;
+    if (status) {
+      session.offset = status.offset;
+      console.log(
+        `Resuming upload at ${Math.round((session.offset / size) * 100)}%`,
+      );
+    } else {
+      console.log(`Upload session expired, starting over.`);
+      session = undefined;
+    }
+  }
+
+  if (!session) {
+    session = await openSession(size, options);
+    options.onSession?.({ ...session });
+  }
+
+  while (true) {
+    const end = Math.min(session.offset + chunkSize, size);
+    const res = await fetch(session.uri, {
+      method: "PUT",
+      headers: {
+        Authorization: `Bearer ${await options.accessToken()}`,
+        "Content-Range": `bytes ${session.offset}-${end - 1}/${size}`,
+      },
+      body: file.slice(session.offset, end),
+    });
+
+    if (res.ok) {
+      return res.json();
+    }
+    if (res.status !== 308) {
+      throw await failure(res, "Uploading chunk");
+    }
+
+    const offset = nextOffset(res);
+    if (offset <= session.offset) {
+      throw new UploadError(`Upload stalled at byte ${session.offset}`, 503);
+    }
+    session.offset = offset;
+    options.onSession?.({ ...session });
+    console.log(
+      `Uploaded ${Math.round((session.offset / size) * 100)}% of ${filePath}`,
+    );
+  }
+}
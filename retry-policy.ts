@@ -0,0 +1,75 @@
+export type Stage = "analysis" | "render" | "upload";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+}
+
+export interface RetryConfig {
+  analysis?: Partial<RetryPolicy>;
+  render?: Partial<RetryPolicy>;
+  upload?: Partial<RetryPolicy>;
+  // How often the scheduler looks for due retries
+  checkIntervalSeconds?: number;
+}
+
+export const DEFAULT_POLICIES: Record<Stage, RetryPolicy> = {
+  // Quota errors usually clear within the hour
+  analysis: { maxAttempts: 5, baseDelaySeconds: 60, maxDelaySeconds: 3600 },
+  render: { maxAttempts: 2, baseDelaySeconds: 30, maxDelaySeconds: 300 },
+  // The YouTube daily quota resets after up to 24h
+  upload: { maxAttempts: 6, baseDelaySeconds: 120, maxDelaySeconds: 21600 },
+};
+
+// Errors that will fail the same way however often they are retried
+export class PermanentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentError";
+  }
+}
+
+const TRANSIENT_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ENETUNREACH",
+];
+
+const TRANSIENT_MESSAGE =
+  /quota|rate.?limit|too many requests|timed? ?out|temporar|unavailable|overloaded|socket hang up|fetch failed|network|\b(429|500|502|503|504)\b/i;
+
+// Quota, network and 5xx errors are worth retrying; everything else
+// (corrupt file, invalid output, bad config, ...) is treated as permanent.
+export function isTransient(error: any): boolean {
+  if (!error || error instanceof PermanentError) return false;
+
+  const status = Number(
+    error.status ?? error.response?.status ?? error.code ?? NaN,
+  );
+  if (status === 429 || (status >= 500 && status < 600)) return true;
+  if (TRANSIENT_CODES.includes(error.code)) return true;
+
+  return TRANSIENT_MESSAGE.test(String(error.message ?? ""));
+}
+
+export function policyFor(stage: Stage, config: RetryConfig = {}): RetryPolicy {
+  return { ...DEFAULT_POLICIES[stage], ...config[stage] };
+}
+
+// Exponential backoff with ±20% jitter, so parallel failures don't retry
+// in lockstep.
+export function retryDelaySeconds(
+  policy: RetryPolicy,
+  attempt: number,
+): number {
+  const delay = Math.min(
+    policy.maxDelaySeconds,
+    policy.baseDelaySeconds * 2 ** Math.max(0, attempt - 1),
+  );
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
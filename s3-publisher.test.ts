@@ -0,0 +1,208 @@
+import { afterAll, beforeAll, beforeEach, expect, test } from "bun:test";
+import { createHash, createHmac } from "node:crypto";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { VideoState } from "./lock-manager";
+import { S3Publisher, type S3PublisherOptions } from "./s3-publisher";
+
+const ACCESS_KEY = "AKIDSTANDIN";
+const SECRET_KEY = "stand-in-secret";
+const REGION = "eu-west-1";
+
+const sha256 = (data: string) =>
+  createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac("sha256", key).update(data).digest();
+
+// AWS Signature Version 4 as S3 checks it. `query` is the canonical query
+// string, `payloadHash` x-amz-content-sha256 (or UNSIGNED-PAYLOAD).
+function expectedSignature(
+  method: string,
+  path: string,
+  query: string,
+  headers: Record<string, string>,
+  signedHeaders: string,
+  payloadHash: string,
+  amzDate: string,
+): string {
+  const scope = `${amzDate.slice(0, 8)}/${REGION}/s3/aws4_request`;
+  const canonicalRequest = [
+    method,
+    path,
+    query,
+    ...signedHeaders.split(";").map((name) => `${name}:${headers[name]}`),
+    "",
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join("\n");
+
+  let key: Buffer = hmac(`AWS4${SECRET_KEY}`, amzDate.slice(0, 8));
+  for (const part of [REGION, "s3", "aws4_request"]) key = hmac(key, part);
+  return createHmac("sha256", key).update(stringToSign).digest("hex");
+}
+
+// S3-compatible stand-in: stores PUT objects and rejects badly signed
+// requests like S3 does
+interface StoredObject {
+  body: Buffer;
+  contentType: string | null;
+}
+const objects = new Map<string, StoredObject>();
+let server: ReturnType<typeof Bun.serve>;
+
+let dir: string;
+let state: VideoState;
+
+beforeAll(async () => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      const auth = req.headers
+        .get("authorization")
+        ?.match(
+          /^AWS4-HMAC-SHA256 Credential=([^/]+)\/\d{8}\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=(\w+)$/,
+        );
+      if (req.method !== "PUT" || !auth) {
+        return new Response("Unsupported", { status: 400 });
+      }
+
+      const [, accessKey, region, signedHeaders, signature] = auth;
+      const headers = Object.fromEntries(req.headers);
+      const expected = expectedSignature(
+        req.method,
+        url.pathname,
+        "",
+        headers,
+        signedHeaders!,
+        headers["x-amz-content-sha256"]!,
+        headers["x-amz-date"]!,
+      );
+      if (
+        accessKey !== ACCESS_KEY ||
+        region !== REGION ||
+        signature !== expected
+      ) {
+        return new Response("SignatureDoesNotMatch", { status: 403 });
+      }
+
+      objects.set(url.pathname, {
+        body: Buffer.from(await req.arrayBuffer()),
+        contentType: req.headers.get("content-type"),
+      });
+      return new Response(null, { headers: { ETag: '"stand-in"' } });
+    },
+  });
+
+  dir = await mkdtemp(join(tmpdir(), "s3-publisher-"));
+  state = {
+    status: "RENDERED",
+    originalName: "ace.mp4",
+    lastUpdated: new Date().toISOString(),
+    outputFilePath: join(dir, "Ace_montage.mp4"),
+    verticalOutputPath: join(dir, "Ace_vertical.mp4"),
+  };
+  await Bun.write(state.outputFilePath!, "montage bytes");
+  await Bun.write(state.verticalOutputPath!, "vertical bytes");
+});
+
+beforeEach(() => objects.clear());
+
+afterAll(async () => {
+  server.stop(true);
+  await rm(dir, { recursive: true, force: true });
+});
+
+function publisher(options: Partial<S3PublisherOptions> = {}) {
+  return new S3Publisher({
+    bucket: "clips",
+    endpoint: `http://127.0.0.1:${server.port}`,
+    region: REGION,
+    accessKeyId: ACCESS_KEY,
+    secretAccessKey: SECRET_KEY,
+    ...options,
+  });
+}
+
+test("uploads the montage and the vertical cut with signed requests", async () => {
+  await publisher({ prefix: "montages/" }).publish("ace.mp4", state);
+
+  expect([...objects.keys()].sort()).toEqual([
+    "/clips/montages/Ace_montage.mp4",
+    "/clips/montages/Ace_vertical.mp4",
+  ]);
+  const stored = objects.get("/clips/montages/Ace_montage.mp4")!;
+  expect(stored.body.toString()).toBe("montage bytes");
+  expect(stored.contentType).toBe("video/mp4");
+});
+
+test("sets the content type from the file extension", async () => {
+  const mkv = { ...state, outputFilePath: join(dir, "Ace_montage.mkv") };
+  await Bun.write(mkv.outputFilePath, "matroska bytes");
+
+  await publisher({ vertical: false }).publish("ace.mp4", mkv);
+
+  expect(objects.get("/clips/Ace_montage.mkv")!.contentType).toBe(
+    "video/x-matroska",
+  );
+});
+
+test("leaves the vertical cut out with vertical: false", async () => {
+  await publisher({ vertical: false }).publish("ace.mp4", state);
+
+  expect([...objects.keys()]).toEqual(["/clips/Ace_montage.mp4"]);
+});
+
+test("fails when the endpoint rejects the signature", async () => {
+  const wrongSecret = publisher({ secretAccessKey: "not-the-secret" });
+
+  await expect(wrongSecret.publish("ace.mp4", state)).rejects.toThrow();
+  expect(objects.size).toBe(0);
+});
+
+test("links the public URL when one is set", async () => {
+  const { url } = await publisher({
+    prefix: "montages/",
+    publicUrl: "https://cdn.example.com/",
+  }).publish("ace.mp4", state);
+
+  expect(url).toBe("https://cdn.example.com/montages/Ace_montage.mp4");
+});
+
+test("links a presigned URL that verifies", async () => {
+  const { url } = await publisher({ presignSeconds: 3600 }).publish(
+    "ace.mp4",
+    state,
+  );
+
+  const link = new URL(url!);
+  expect(link.pathname).toBe("/clips/Ace_montage.mp4");
+  const params = link.searchParams;
+  expect(params.get("X-Amz-Expires")).toBe("3600");
+  expect(params.get("X-Amz-Credential")).toStartWith(`${ACCESS_KEY}/`);
+
+  const query = [...params]
+    .filter(([name]) => name !== "X-Amz-Signature")
+    .map(([name, value]) => [name, encodeURIComponent(value)])
+    .sort(([a], [b]) => a!.localeCompare(b!))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+  expect(params.get("X-Amz-Signature")).toBe(
+    expectedSignature(
+      "GET",
+      link.pathname,
+      query,
+      { host: link.host },
+      params.get("X-Amz-SignedHeaders")!,
+      "UNSIGNED-PAYLOAD",
+      params.get("X-Amz-Date")!,
+    ),
+  );
+});
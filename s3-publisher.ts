@@ -0,0 +1,69 @@
+import { basename } from "node:path";
+import type { VideoState } from "./lock-manager";
+import { mimeTypeFor } from "./media";
+import type { Publisher } from "./publisher";
+
+export interface S3PublisherOptions {
+  bucket: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string; // Key prefix, e.g. "montages/"
+  // Public base URL of the bucket (CDN, public bucket). Without it the
+  // link is a presigned URL valid for `presignSeconds`.
+  publicUrl?: string;
+  presignSeconds?: number;
+  vertical?: boolean; // Also upload the vertical cut (default on)
+}
+
+// 7 days, the longest S3 allows for presigned URLs
+const DEFAULT_PRESIGN_SECONDS = 7 * 24 * 3600;
+
+// Uploads the rendered outputs to any S3-compatible bucket (AWS, R2,
+// MinIO, ...). Large files are sent as multipart uploads by Bun.
+export class S3Publisher implements Publisher {
+  readonly name = "s3";
+  private client: Bun.S3Client;
+
+  constructor(private options: S3PublisherOptions) {
+    if (!options.bucket) {
+      throw new Error("'publish.s3.bucket' is missing in config.json");
+    }
+    this.client = new Bun.S3Client({
+      bucket: options.bucket,
+      endpoint: options.endpoint,
+      region: options.region,
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+    });
+  }
+
+  async publish(
+    _filename: string,
+    state: VideoState,
+  ): Promise<{ url?: string }> {
+    const files = [state.outputFilePath!];
+    if (state.verticalOutputPath && this.options.vertical !== false) {
+      files.push(state.verticalOutputPath);
+    }
+
+    const keys: string[] = [];
+    for (const file of files) {
+      const key = `${this.options.prefix ?? ""}${basename(file)}`;
+      console.log(`🪣 [S3] Uploading s3://${this.options.bucket}/${key}...`);
+      await this.client.write(key, Bun.file(file), {
+        type: mimeTypeFor(file),
+      });
+      keys.push(key);
+    }
+
+    const key = keys[0]!;
+    const url = this.options.publicUrl
+      ? `${this.options.publicUrl.replace(/\/+$/, "")}/${key}`
+      : this.client.presign(key, {
+          expiresIn: this.options.presignSeconds ?? DEFAULT_PRESIGN_SECONDS,
+        });
+    return { url };
+  }
+}
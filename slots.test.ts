@@ -0,0 +1,54 @@
+import { expect, test } from "bun:test";
+import { mapInSlots, Slots } from "./slots";
+
+test("runs items in free slots and keeps their order", async () => {
+  const slots = new Slots(() => 3);
+  slots.tryTake(); // The caller's own slot
+  let running = 0;
+  let peak = 0;
+
+  const results = await mapInSlots([1, 2, 3, 4, 5, 6], slots, async (n) => {
+    peak = Math.max(peak, ++running);
+    await Bun.sleep(10);
+    running--;
+    return n * 2;
+  });
+
+  expect(results).toEqual([2, 4, 6, 8, 10, 12]);
+  expect(peak).toBe(3);
+  // Borrowed slots are all given back
+  expect(slots.tryTake()).toBe(true);
+  expect(slots.tryTake()).toBe(true);
+  expect(slots.tryTake()).toBe(false);
+});
+
+test("stops starting items after a failure and throws the first error", async () => {
+  const slots = new Slots(() => 3);
+  slots.tryTake();
+  const started: number[] = [];
+
+  const mapping = mapInSlots([0, 1, 2, 3, 4, 5], slots, async (n) => {
+    started.push(n);
+    await Bun.sleep(n === 1 ? 5 : 20);
+    if (n === 1 || n === 2) throw new Error(`item ${n} failed`);
+    return n;
+  });
+
+  await expect(mapping).rejects.toThrow("item 1 failed");
+  expect(started).toEqual([0, 1, 2]);
+  expect(slots.tryTake()).toBe(true);
+  expect(slots.tryTake()).toBe(true);
+});
+
+test("runs one at a time without slots", async () => {
+  let running = 0;
+  let peak = 0;
+
+  await mapInSlots([1, 2, 3], undefined, async () => {
+    peak = Math.max(peak, ++running);
+    await Bun.sleep(5);
+    running--;
+  });
+
+  expect(peak).toBe(1);
+});
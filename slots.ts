@@ -0,0 +1,77 @@
+// Work slots shared by the clip queue and the work inside a clip (analysis
+// windows), so both stay within maxConcurrent. `limit` is read on every
+// take, so a config reload applies to it.
+export class Slots {
+  private taken = 0;
+  private listeners = new Set<() => void>();
+
+  constructor(private limit: () => number) {}
+
+  // Takes a slot when one is free
+  tryTake(): boolean {
+    if (this.taken >= this.limit()) return false;
+    this.taken++;
+    return true;
+  }
+
+  // Frees a slot and tells the listeners, in the order they subscribed
+  release() {
+    this.taken--;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Returns the unsubscribe function
+  onRelease(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+// Runs `fn` over the items, keeping their order. The caller's own slot
+// works through them one at a time; a free slot (now or when one is
+// released) takes one more item at a time, then gives the slot back so a
+// waiting clip can have it. Without `slots`, one at a time. After the first
+// failure no item is started; the running ones are waited for, then the
+// error is thrown.
+export async function mapInSlots<T, R>(
+  items: T[],
+  slots: Slots | undefined,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let failure: { error: unknown } | undefined;
+  let next = 0;
+  const more = () => !failure && next < items.length;
+  const run = async (index: number) => {
+    try {
+      results[index] = await fn(items[index]!, index);
+    } catch (error) {
+      failure ??= { error };
+    }
+  };
+  const worker = async () => {
+    while (more()) await run(next++);
+  };
+
+  const workers = [worker()];
+  const borrow = () => {
+    while (more() && slots?.tryTake()) {
+      workers.push(run(next++).finally(() => slots.release()));
+    }
+  };
+  const unsubscribe = slots?.onRelease(borrow);
+  try {
+    borrow();
+    // Borrowed items can be added while waiting
+    for (let waited = 0; waited < workers.length;) {
+      const batch = workers.slice(waited);
+      waited = workers.length;
+      await Promise.allSettled(batch);
+    }
+  } finally {
+    unsubscribe?.();
+  }
+
+  if (failure) throw failure.error;
+  return results;
+}
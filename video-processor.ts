@@ -1,60 +1,219 @@
-import { spawn } from "node:child_process";
-import { join, dirname, extname } from "node:path";
+import { join, dirname, extname, basename } from "node:path";
 import { mkdir } from "node:fs/promises";
+import type { Highlight } from "./analyzer";
+import { scoreOf, timeToSeconds } from "./highlights";
+import {
+  probeVideoSize,
+  runFfmpeg,
+  type FfmpegJobOptions,
+  type FfmpegProgress,
+} from "./media";
+import { musicFilter, pickTrack, type MusicOptions } from "./music";
+import {
+  drawtextFilter,
+  type OverlayOptions,
+  type TextStyle,
+} from "./overlays";
+import {
+  BUILTIN_PROFILES,
+  DEFAULT_PROFILE,
+  type RenderProfile,
+} from "./render-profiles";
 
-interface Highlight {
-  start_time: string;
-  end_time: string;
+function encoderArgs(profile: RenderProfile): string[] {
+  const args = ["-c:v", profile.videoCodec];
+  if (profile.preset) args.push("-preset", profile.preset);
+  if (profile.crf !== undefined) args.push("-crf", String(profile.crf));
+  if (profile.videoBitrate) args.push("-b:v", profile.videoBitrate);
+  args.push("-c:a", profile.audioCodec, "-b:a", profile.audioBitrate);
+  if (profile.audioSampleRate) {
+    args.push("-ar", String(profile.audioSampleRate));
+  }
+  return args;
+}
+
+export function sanitizeFilename(title: string): string {
+  // Replace illegal chars for Windows/Linux files
+  let safeName = title.replace(/[<>:"/\\|?*]+/g, "-");
+  safeName = `${safeName} - ${new Date().toISOString()}`;
+  safeName = safeName.toLowerCase().replace(" ", "-");
+  return safeName.trim().replace(/^\.+|\.+$/g, "") || "untitled_montage";
+}
+
+export interface VerticalOptions {
+  enabled?: boolean;
+  // blur: whole frame over a blurred fill; center: 9:16 center crop;
+  // crosshair: tighter crop zoomed on the crosshair
+  mode?: "blur" | "center" | "crosshair";
+  maxSeconds?: number;
+  resolution?: string;
+  // Share of the frame height kept in crosshair mode
+  crosshairZoom?: number;
+}
+
+export interface MontageOptions {
+  // Shown on the title card
+  title?: string;
+  overlays?: OverlayOptions;
+  vertical?: VerticalOptions;
+  music?: MusicOptions;
+  // Cancels the render: ffmpeg is killed and partial files removed
+  signal?: AbortSignal;
+  onProgress?: (job: "montage" | "vertical", progress: FfmpegProgress) => void;
+  // Also grab a frame of the best highlight as a thumbnail
+  thumbnail?: boolean;
+}
+
+// Where a part of the landscape montage starts, for YouTube chapters
+export interface Chapter {
+  start: number; // seconds into the montage
+  title: string;
+}
+
+export interface MontageResult {
+  outputPath: string;
+  verticalPath?: string;
+  thumbnailPath?: string;
+  duration: number;
+  chapters: Chapter[];
+}
+
+interface Segment {
+  // ffmpeg input index of the clip the segment is cut from
+  input: number;
+  start: number;
+  end: number;
+  duration: number;
   description: string;
 }
 
-function timeToSeconds(time: string): number {
-  const parts = time.split(":").map(Number);
-  if (parts.length === 3) {
-    return (parts[0] ?? 0) * 3600 + (parts[1] ?? 0) * 60 + (parts[2] ?? 0);
-  } else if (parts.length === 2) {
-    return (parts[0] ?? 0) * 60 + (parts[1] ?? 0);
-  }
-  return parts[0] ?? 0;
+// One entry of the montage timeline: a clip segment or a generated card
+interface TimelinePart {
+  duration: number;
+  // Chapter title (highlight description, "Intro", ...)
+  label?: string;
+  // Extra ffmpeg inputs this part needs (after the source clips)
+  inputs: string[][];
+  // Filter chains writing [v<i>] and [a<i>]; `firstInput` is the index of
+  // the first of this part's extra inputs
+  filters: (i: number, firstInput: number) => string;
 }
 
-export async function createMontage(
-  inputPath: string,
-  highlights: Highlight[],
-  outputName: string,
-): Promise<string> {
-  const outputDir = join(dirname(inputPath), "processed");
-  await mkdir(outputDir, { recursive: true });
+const PIXEL_FORMAT = "yuv420p"; // Ensure compatibility
+// Every part is normalised to this so acrossfade can join them
+const AUDIO_FORMAT = "aformat=sample_rates=48000:channel_layouts=stereo";
+// Captions appear slightly after the segment starts
+const CAPTION_DELAY = 0.3;
 
-  const outputPath = join(outputDir, `${outputName}${extname(inputPath)}`);
+// YouTube's recommended thumbnail size
+const THUMBNAIL_SIZE = "1280:720";
 
-  // 1. Prepare segments with buffers
-  const buffer = 2; // seconds
-  const segments = highlights.map((h) => {
+function toSegments(
+  highlights: Highlight[],
+  buffer: number,
+  sources: string[] = [],
+): Segment[] {
+  return highlights.map((h) => {
+    const input = h.source ? Math.max(0, sources.indexOf(h.source)) : 0;
     const start = Math.max(0, timeToSeconds(h.start_time) - buffer);
     const end = timeToSeconds(h.end_time) + buffer;
     const duration = end - start;
-    return { start, end, duration };
+    return { input, start, end, duration, description: h.description };
   });
+}
 
-  if (segments.length === 0 || !segments[0]) {
-    throw new Error("No highlights to process");
+function segmentPart(
+  seg: Segment,
+  profile: RenderProfile,
+  frameFilter: (i: number) => string,
+  overlays: OverlayOptions,
+): TimelinePart {
+  const captions = overlays.captions;
+  const caption = captions?.enabled
+    ? `,${drawtextFilter(
+        seg.description,
+        { ...overlays.style, ...captions.style },
+        CAPTION_DELAY,
+        Math.min(seg.duration, CAPTION_DELAY + (captions.durationSeconds ?? 3)),
+      )}`
+    : "";
+
+  // [0:v]trim=start=S:end=E,setpts=PTS-STARTPTS,fps=60,format=yuv420p[v0];
+  return {
+    duration: seg.duration,
+    label: seg.description,
+    inputs: [],
+    filters: (i) =>
+      `[${seg.input}:v]trim=start=${seg.start}:end=${seg.end},setpts=PTS-STARTPTS,fps=${profile.fps}${frameFilter(i)}${caption},format=${PIXEL_FORMAT},setsar=1[v${i}];` +
+      `[${seg.input}:a]atrim=start=${seg.start}:end=${seg.end},asetpts=PTS-STARTPTS,${AUDIO_FORMAT}[a${i}];`,
+  };
+}
+
+// Solid background with text lines (and an optional centred logo), silent.
+function cardPart(
+  duration: number,
+  size: string,
+  profile: RenderProfile,
+  background: string,
+  lines: { text: string; style: TextStyle }[],
+  logoPath?: string,
+): TimelinePart {
+  const inputs = [
+    [
+      "-f",
+      "lavfi",
+      "-t",
+      String(duration),
+      "-i",
+      `color=c=${background}:s=${size}:r=${profile.fps}`,
+    ],
+    ["-f", "lavfi", "-t", String(duration), "-i", "anullsrc=r=48000:cl=stereo"],
+  ];
+  if (logoPath) {
+    inputs.push(["-loop", "1", "-t", String(duration), "-i", logoPath]);
   }
 
-  // 2. Build Filter Complex
+  const text = lines.map((l) => `,${drawtextFilter(l.text, l.style)}`).join("");
+
+  return {
+    duration,
+    inputs,
+    filters: (i, first) => {
+      const audio = `[${first + 1}:a]${AUDIO_FORMAT}[a${i}];`;
+      if (!logoPath) {
+        return `[${first}:v]null${text},format=${PIXEL_FORMAT},setsar=1[v${i}];${audio}`;
+      }
+      return (
+        // Logo takes 30% of the card height
+        `[${first + 2}:v]scale=-2:${Math.round(Number(size.split("x")[1]) * 0.3)}[logo${i}];` +
+        `[${first}:v][logo${i}]overlay=(W-w)/2:(H-h)/2-H*0.1${text},format=${PIXEL_FORMAT},setsar=1[v${i}];${audio}`
+      );
+    },
+  };
+}
+
+// Writes every part's chains and joins them with xfade/acrossfade into [v]
+// and `audioLabel`. Returns the filter graph, the extra inputs in order and
+// the total duration.
+function buildFilterComplex(
+  parts: TimelinePart[],
+  profile: RenderProfile,
+  audioLabel = "[a]",
+  sourceCount = 1,
+): { filterComplex: string; inputs: string[][]; duration: number } {
   let filterComplex = "";
-  const pixelFormat = "yuv420p"; // Ensure compatibility
+  const inputs: string[][] = [];
 
-  // Create trim filters for each segment
-  // [0:v]trim=start=S:end=E,setpts=PTS-STARTPTS,fps=60,format=yuv420p[v0];
-  segments.forEach((seg, i) => {
-    filterComplex += `[0:v]trim=start=${seg.start}:end=${seg.end},setpts=PTS-STARTPTS,fps=60,format=yuv420p[v${i}];`;
-    filterComplex += `[0:a]atrim=start=${seg.start}:end=${seg.end},asetpts=PTS-STARTPTS[a${i}];`;
+  parts.forEach((part, i) => {
+    filterComplex += part.filters(i, sourceCount + inputs.length);
+    inputs.push(...part.inputs);
   });
 
-  // Chain xfade/acrossfade if multiple segments
-  if (segments.length > 1) {
-    const fadeDuration = 0.5; // 0.5s crossfade
+  let accumulatedDuration = parts[0]?.duration ?? 0;
+
+  // Chain xfade/acrossfade if multiple parts
+  if (parts.length > 1 && parts[0]) {
+    const fadeDuration = profile.transitionDuration;
 
     // Video fading
     // [v0][v1]xfade=transition=fade:duration=1:offset=L0-1[vm1];
@@ -62,21 +221,20 @@ export async function createMontage(
 
     let currentVideoLabel = "[v0]";
     let currentAudioLabel = "[a0]";
-    let accumulatedDuration = segments[0].duration;
 
-    for (let i = 1; i < segments.length; i++) {
-      const segment = segments[i];
-      if (!segment) continue;
+    for (let i = 1; i < parts.length; i++) {
+      const part = parts[i];
+      if (!part) continue;
 
       const nextVideoLabel = `[v${i}]`;
       const nextAudioLabel = `[a${i}]`;
-      const targetVideoLabel = i === segments.length - 1 ? "[v]" : `[vm${i}]`;
-      const targetAudioLabel = i === segments.length - 1 ? "[a]" : `[am${i}]`;
+      const targetVideoLabel = i === parts.length - 1 ? "[v]" : `[vm${i}]`;
+      const targetAudioLabel = i === parts.length - 1 ? audioLabel : `[am${i}]`;
 
       const offset = accumulatedDuration - fadeDuration;
 
       // Video Crossfade
-      filterComplex += `${currentVideoLabel}${nextVideoLabel}xfade=transition=fade:duration=${fadeDuration}:offset=${offset}${targetVideoLabel};`;
+      filterComplex += `${currentVideoLabel}${nextVideoLabel}xfade=transition=${profile.transition}:duration=${fadeDuration}:offset=${offset}${targetVideoLabel};`;
 
       // Audio Crossfade (acrossfade doesn't use offset, it just overlaps end/start)
       // But we need to be careful with mix.
@@ -88,56 +246,334 @@ export async function createMontage(
       currentAudioLabel = targetAudioLabel;
 
       // Update duration: (DurA + DurB - Fade)
-      accumulatedDuration =
-        accumulatedDuration + segment.duration - fadeDuration;
+      accumulatedDuration = accumulatedDuration + part.duration - fadeDuration;
     }
   } else {
-    // Single segment, just map [v0] to [v] and [a0] to [a]
-    filterComplex += `[v0]format=${pixelFormat}[v];[a0]aformat=channel_layouts=stereo[a]`;
+    // Single part, just map [v0] to [v] and [a0] to [a]
+    filterComplex += `[v0]format=${PIXEL_FORMAT}[v];[a0]aformat=channel_layouts=stereo${audioLabel}`;
   }
 
-  return new Promise((resolve, reject) => {
-    const args = [
+  return { filterComplex, inputs, duration: accumulatedDuration };
+}
+
+async function renderTimeline(
+  sources: string[],
+  parts: TimelinePart[],
+  outputPath: string,
+  profile: RenderProfile,
+  music: { track: string; options: MusicOptions } | undefined,
+  job: Pick<FfmpegJobOptions, "signal" | "onProgress">,
+): Promise<number> {
+  if (parts.length === 0) {
+    throw new Error("No highlights to process");
+  }
+
+  const graph = buildFilterComplex(
+    parts,
+    profile,
+    music ? "[amain]" : "[a]",
+    sources.length,
+  );
+  let { filterComplex, inputs } = graph;
+
+  // Music bed: looped input mixed under the montage audio
+  if (music) {
+    const mix = musicFilter(
+      sources.length + inputs.length,
+      "[amain]",
+      "[a]",
+      graph.duration,
+      music.options,
+    );
+    filterComplex = `${filterComplex.replace(/;$/, "")};${mix}`;
+    inputs = [...inputs, ["-stream_loop", "-1", "-i", music.track]];
+  }
+
+  await runFfmpeg(
+    [
       "-y",
-      "-i",
-      inputPath,
+      ...sources.flatMap((source) => ["-i", source]),
+      ...inputs.flat(),
       "-filter_complex",
       filterComplex,
       "-map",
       "[v]",
       "-map",
       "[a]",
-      "-c:v",
-      "libx264", // Generic H.264 encoder
-      "-preset",
-      "slow", // Better compression
-      "-crf",
-      "18", // Visually lossless
-      "-c:a",
-      "aac",
-      "-b:a",
-      "320k", // High quality audio
+      ...encoderArgs(profile),
+      outputPath,
+    ],
+    {
+      ...job,
+      duration: graph.duration,
       outputPath,
+      logPath: join("logs", `${basename(outputPath)}.log`),
+    },
+  );
+  return graph.duration;
+}
+
+// Start of every part in the rendered timeline: each transition overlaps
+// the end of one part with the start of the next
+function chaptersFor(parts: TimelinePart[], profile: RenderProfile): Chapter[] {
+  let offset = 0;
+  return parts.map((part) => {
+    const chapter = { start: offset, title: part.label ?? "" };
+    offset += part.duration - profile.transitionDuration;
+    return chapter;
+  });
+}
+
+// Frame from the middle of the best-scored highlight
+async function extractThumbnail(
+  highlights: Highlight[],
+  inputPath: string,
+  outputPath: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  const best = highlights.reduce((a, b) => (scoreOf(b) > scoreOf(a) ? b : a));
+  const time =
+    (timeToSeconds(best.start_time) + timeToSeconds(best.end_time)) / 2;
+
+  await runFfmpeg(
+    [
+      "-y",
+      "-ss",
+      String(time),
+      "-i",
+      best.source ?? inputPath,
+      "-frames:v",
+      "1",
+      "-vf",
+      `scale=${THUMBNAIL_SIZE}:force_original_aspect_ratio=decrease,pad=${THUMBNAIL_SIZE}:(ow-iw)/2:(oh-ih)/2`,
+      "-q:v",
+      "2",
+      outputPath,
+    ],
+    {
+      signal,
+      outputPath,
+      logPath: join("logs", `${basename(outputPath)}.log`),
+    },
+  );
+}
+
+// Best-scored highlights that fit in `maxSeconds` (after buffers and
+// transitions), back in chronological order. A single highlight longer than
+// the limit is cut down to it.
+function pickForVertical(
+  highlights: Highlight[],
+  profile: RenderProfile,
+  maxSeconds: number,
+  sources: string[],
+): Segment[] {
+  const ranked = highlights
+    .map((h, i) => ({
+      h,
+      i,
+      seg: toSegments([h], profile.bufferSeconds, sources)[0]!,
+    }))
+    .sort((a, b) => scoreOf(b.h) - scoreOf(a.h));
+
+  const picked: typeof ranked = [];
+  let total = 0;
+  for (const item of ranked) {
+    const added =
+      picked.length === 0
+        ? item.seg.duration
+        : item.seg.duration - profile.transitionDuration;
+    if (total + added <= maxSeconds) {
+      picked.push(item);
+      total += added;
+    }
+  }
+
+  if (picked.length === 0 && ranked[0]) {
+    const { start } = ranked[0].seg;
+    return [
+      {
+        ...ranked[0].seg,
+        end: start + maxSeconds,
+        duration: maxSeconds,
+      },
     ];
+  }
 
-    console.log("Spawning ffmpeg with args:", args.join(" "));
+  return picked.sort((a, b) => a.i - b.i).map((item) => item.seg);
+}
 
-    const ffmpeg = spawn("ffmpeg", args);
+function verticalFrameFilter(options: VerticalOptions): (i: number) => string {
+  const [width, height] = (options.resolution ?? "1080x1920").split("x");
+  const size = `${width}:${height}`;
 
-    let stderr = "";
-    ffmpeg.stderr.on("data", (d) => (stderr += d.toString()));
+  switch (options.mode ?? "blur") {
+    case "center":
+      return () => `,crop=ih*9/16:ih,scale=${size}`;
+    case "crosshair": {
+      const zoom = options.crosshairZoom ?? 0.6;
+      // crop centres by default, which is where the crosshair sits
+      return () => `,crop=ih*${zoom}*9/16:ih*${zoom},scale=${size}`;
+    }
+    case "blur":
+      return (i) =>
+        `,split[fg${i}][bg${i}];` +
+        `[bg${i}]scale=${size}:force_original_aspect_ratio=increase,crop=${size},boxblur=20:5[bgs${i}];` +
+        `[fg${i}]scale=${width}:-2[fgs${i}];` +
+        `[bgs${i}][fgs${i}]overlay=(W-w)/2:(H-h)/2`;
+  }
+}
 
-    ffmpeg.on("close", (code) => {
-      if (code === 0) {
-        resolve(outputPath);
-      } else {
-        console.error("FFmpeg Error:", stderr);
-        reject(new Error(`ffmpeg exited with code ${code}`));
-      }
-    });
+export async function createMontage(
+  inputPath: string,
+  highlights: Highlight[],
+  outputName: string,
+  profile: RenderProfile = BUILTIN_PROFILES[DEFAULT_PROFILE]!,
+  options: MontageOptions = {},
+): Promise<MontageResult> {
+  const outputDir = join(dirname(inputPath), "processed");
+  await mkdir(outputDir, { recursive: true });
 
-    ffmpeg.on("error", (err) => {
-      reject(err);
-    });
-  });
+  const outputPath = join(outputDir, `${outputName}${extname(inputPath)}`);
+  const overlays = options.overlays ?? {};
+
+  // One track for both cuts so they sound the same
+  let music: { track: string; options: MusicOptions } | undefined;
+  if (options.music?.enabled && options.music.folder) {
+    const track = await pickTrack(options.music.folder);
+    if (track) {
+      console.log(`🎵 [FFMPEG] Music bed: ${track}`);
+      music = { track, options: options.music };
+    } else {
+      console.log(
+        `⚠️ [FFMPEG] No tracks in ${options.music.folder}, skipping music.`,
+      );
+    }
+  }
+
+  // 1. Landscape montage with every highlight, between optional cards
+  // Clips of a compilation may differ in size; fit them all to the first
+  const sources = [
+    ...new Set([inputPath, ...highlights.map((h) => h.source ?? inputPath)]),
+  ];
+  let scale = profile.resolution
+    ? `,scale=${profile.resolution.replace("x", ":")}:flags=lanczos`
+    : "";
+  if (sources.length > 1) {
+    const size = (profile.resolution ?? (await probeSize(inputPath))).replace(
+      "x",
+      ":",
+    );
+    scale = `,scale=${size}:force_original_aspect_ratio=decrease:flags=lanczos,pad=${size}:(ow-iw)/2:(oh-ih)/2`;
+  }
+  const parts = toSegments(highlights, profile.bufferSeconds, sources).map(
+    (seg) => segmentPart(seg, profile, () => scale, overlays),
+  );
+
+  const { titleCard, outro } = overlays;
+  if (titleCard?.enabled || outro?.enabled) {
+    const size = profile.resolution ?? (await probeSize(inputPath));
+    if (titleCard?.enabled && options.title) {
+      parts.unshift({
+        label: "Intro",
+        ...cardPart(
+          titleCard.durationSeconds ?? 3,
+          size,
+          profile,
+          titleCard.background ?? "black",
+          [
+            {
+              text: options.title,
+              style: {
+                position: "center",
+                ...overlays.style,
+                ...titleCard.style,
+              },
+            },
+          ],
+        ),
+      });
+    }
+    if (outro?.enabled) {
+      parts.push({
+        label: "Outro",
+        ...cardPart(
+          outro.durationSeconds ?? 4,
+          size,
+          profile,
+          outro.background ?? "black",
+          outro.text
+            ? [
+                {
+                  text: outro.text,
+                  style: { ...overlays.style, ...outro.style },
+                },
+              ]
+            : [],
+          outro.logoPath,
+        ),
+      });
+    }
+  }
+
+  const duration = await renderTimeline(
+    sources,
+    parts,
+    outputPath,
+    profile,
+    music,
+    {
+      signal: options.signal,
+      onProgress: (p) => options.onProgress?.("montage", p),
+    },
+  );
+  const result: MontageResult = {
+    outputPath,
+    duration,
+    chapters: chaptersFor(parts, profile),
+  };
+
+  if (options.thumbnail) {
+    result.thumbnailPath = join(outputDir, `${outputName}_thumbnail.jpg`);
+    await extractThumbnail(
+      highlights,
+      inputPath,
+      result.thumbnailPath,
+      options.signal,
+    );
+  }
+
+  // 2. Optional 9:16 cut with the best highlights, for Shorts
+  const vertical = options.vertical;
+  if (!vertical?.enabled) {
+    return result;
+  }
+
+  const verticalPath = join(outputDir, `${outputName}_vertical.mp4`);
+  console.log(
+    `📱 [FFMPEG] Rendering vertical cut (${vertical.mode ?? "blur"})...`,
+  );
+  const frameFilter = verticalFrameFilter(vertical);
+  await renderTimeline(
+    sources,
+    pickForVertical(
+      highlights,
+      profile,
+      vertical.maxSeconds ?? 60,
+      sources,
+    ).map((seg) => segmentPart(seg, profile, frameFilter, overlays)),
+    verticalPath,
+    profile,
+    music,
+    {
+      signal: options.signal,
+      onProgress: (p) => options.onProgress?.("vertical", p),
+    },
+  );
+
+  return { ...result, verticalPath };
+}
+
+async function probeSize(inputPath: string): Promise<string> {
+  const { width, height } = await probeVideoSize(inputPath);
+  return `${width}x${height}`;
 }
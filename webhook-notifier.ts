@@ -0,0 +1,26 @@
+import type { PipelineEvent } from "./events";
+import { NOTIFY_TIMEOUT_MS, type Notifier } from "./notifier";
+
+export interface WebhookNotifierOptions {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+// POSTs every event as JSON ({ type, at, filename, ... })
+export class WebhookNotifier implements Notifier {
+  readonly name = "webhook";
+
+  constructor(private options: WebhookNotifierOptions) {}
+
+  async notify(event: PipelineEvent): Promise<void> {
+    const res = await fetch(this.options.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.options.headers },
+      body: JSON.stringify(event),
+      signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      throw new Error(`Webhook returned ${res.status}`);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import type { Chapter } from "./video-processor";
+
+export const DEFAULT_TAGS = ["Valorant", "Gaming", "Highlights", "Montage"];
+
+// YouTube ignores chapters unless there are at least 3, the first at 0:00,
+// each at least 10 seconds long
+const MIN_CHAPTERS = 3;
+const MIN_CHAPTER_SECONDS = 10;
+// Limit on the tags' total length, counted the way YouTube does
+const MAX_TAG_CHARS = 500;
+
+// 0:00, 1:05, 1:02:03
+function chapterTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// Chapters too short for YouTube are folded into the previous one.
+// Returns no lines when fewer than 3 chapters are left.
+export function chapterLines(chapters: Chapter[], duration: number): string[] {
+  const kept: Chapter[] = [];
+  const fold = (into: Chapter, chapter: Chapter) => {
+    into.title = [into.title, chapter.title].filter(Boolean).join(" + ");
+  };
+
+  for (const chapter of chapters) {
+    const last = kept[kept.length - 1];
+    if (last && chapter.start - last.start < MIN_CHAPTER_SECONDS) {
+      fold(last, chapter);
+    } else {
+      kept.push({ ...chapter });
+    }
+  }
+
+  const last = kept[kept.length - 1];
+  if (last && kept.length > 1 && duration - last.start < MIN_CHAPTER_SECONDS) {
+    kept.pop();
+    fold(kept[kept.length - 1]!, last);
+  }
+
+  if (kept.length < MIN_CHAPTERS) {
+    return [];
+  }
+  return kept.map(
+    (c, i) => `${chapterTimestamp(c.start)} ${c.title || `Part ${i + 1}`}`,
+  );
+}
+
+export function buildDescription(
+  text: string,
+  chapters: Chapter[] = [],
+  duration = 0,
+): string {
+  const lines = chapterLines(chapters, duration);
+  return lines.length > 0 ? `${text}\n\n${lines.join("\n")}` : text;
+}
+
+// Earlier lists win: duplicates are dropped and the result is cut to
+// YouTube's length limit (tags with spaces count their quotes, plus one
+// separator per tag)
+export function mergeTags(...lists: string[][]): string[] {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  let length = 0;
+
+  for (const tag of lists.flat().map((t) => t.replace(/^#/, "").trim())) {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+
+    const cost = tag.length + (tag.includes(" ") ? 2 : 0) + 1;
+    if (length + cost > MAX_TAG_CHARS) break;
+
+    seen.add(key);
+    tags.push(tag);
+    length += cost;
+  }
+  return tags;
+}
@@ -0,0 +1,133 @@
+import type { AnalysisResult, VideoMetadata } from "./analyzer";
+import type { VideoState } from "./lock-manager";
+import { nextPublishSlot } from "./publish-schedule";
+import type { PublishContext, Publisher } from "./publisher";
+import { buildDescription } from "./youtube-metadata";
+import { uploadVideo, type YouTubeOptions } from "./youtube-uploader";
+
+// Used when the analyzer can't write a description
+const FALLBACK_METADATA: VideoMetadata = {
+  description: "Valorant highlights, cut automatically.",
+  tags: [],
+};
+
+// Uploads the montage, then the vertical cut as a Short. Metadata, the
+// publish slot and upload sessions are saved on the entry as they are
+// produced, so a retried publish picks up where it stopped.
+export class YouTubePublisher implements Publisher {
+  readonly name = "youtube";
+
+  constructor(private options: YouTubeOptions) {
+    if (!options.clientId || !options.clientSecret || !options.refreshToken) {
+      throw new Error(
+        "YouTube credentials are missing (youtube.clientId, clientSecret and refreshToken in config.json or YOUTUBE_* environment variables)",
+      );
+    }
+  }
+
+  async publish(
+    filename: string,
+    state: VideoState,
+    ctx: PublishContext,
+  ): Promise<{ url?: string }> {
+    const { lock } = ctx;
+    const analysis = state.geminiAnalysis!;
+
+    if (!state.youtubeMetadata) {
+      lock.update(filename, {
+        youtubeMetadata: await this.metadata(ctx, filename, analysis),
+      });
+    }
+
+    const schedule = this.options.schedule;
+    if (!state.publishAt && !state.uploadId && schedule?.enabled) {
+      const taken = lock
+        .entries()
+        .flatMap(([, s]) => (s.publishAt ? [s.publishAt] : []));
+      const publishAt = nextPublishSlot(schedule, taken).toISOString();
+      lock.update(filename, { publishAt });
+      console.log(`📅 [YOUTUBE] Scheduled for ${publishAt}`);
+    }
+
+    state = lock.get(filename)!;
+    const { description, tags } = state.youtubeMetadata!;
+    const options = {
+      tags,
+      publishAt: state.publishAt,
+      thumbnailPath: state.thumbnailPath,
+    };
+
+    let videoId = state.uploadId;
+    if (!videoId) {
+      console.log(`☁️ [YOUTUBE] Uploading...`);
+      videoId = await uploadVideo(
+        state.outputFilePath!,
+        analysis.title,
+        buildDescription(description, state.chapters, state.montageDuration),
+        this.options,
+        {
+          ...options,
+          session: state.uploadSession,
+          onSession: (uploadSession) =>
+            lock.update(filename, { uploadSession }),
+        },
+      );
+      lock.update(filename, { uploadId: videoId, uploadSession: undefined });
+      console.log(
+        state.publishAt
+          ? `🎉 [SUCCESS] Video scheduled: https://youtu.be/${videoId}`
+          : `🎉 [SUCCESS] Video is live: https://youtu.be/${videoId}`,
+      );
+    }
+
+    if (state.verticalOutputPath && !state.shortUploadId) {
+      console.log(`📱 [YOUTUBE] Uploading Short...`);
+      const shortId = await uploadVideo(
+        state.verticalOutputPath,
+        analysis.title,
+        description,
+        this.options,
+        {
+          ...options,
+          short: true,
+          session: state.shortUploadSession,
+          onSession: (shortUploadSession) =>
+            lock.update(filename, { shortUploadSession }),
+        },
+      );
+      lock.update(filename, {
+        shortUploadId: shortId,
+        shortUploadSession: undefined,
+      });
+      console.log(
+        `🎉 [SUCCESS] Short uploaded: https://youtube.com/shorts/${shortId}`,
+      );
+    }
+
+    return { url: `https://youtu.be/${videoId}` };
+  }
+
+  // Description and tags from the analyzer, or the fallback
+  private async metadata(
+    ctx: PublishContext,
+    filename: string,
+    analysis: AnalysisResult,
+  ): Promise<VideoMetadata> {
+    const { analyzer, lock } = ctx;
+    if (!analyzer?.generateMetadata || this.options.aiMetadata === false) {
+      return FALLBACK_METADATA;
+    }
+
+    try {
+      console.log(`📝 [YOUTUBE] Writing description and tags...`);
+      return await analyzer.generateMetadata(analysis, (usage) =>
+        lock.recordUsage(filename, usage),
+      );
+    } catch (error: any) {
+      console.log(
+        `⚠️ Metadata generation failed (${error.message}), using defaults.`,
+      );
+      return FALLBACK_METADATA;
+    }
+  }
+}
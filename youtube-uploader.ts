@@ -1,37 +1,59 @@
 import { google } from "googleapis";
 import { createReadStream } from "node:fs";
-import { readFile } from "node:fs/promises";
-
-interface Config {
-  youtube: {
-    clientId: string;
-    clientSecret: string;
-    refreshToken: string;
-  };
+import type { PublishSchedule } from "./publish-schedule";
+import { resumableUpload, type ResumableSession } from "./resumable-upload";
+import { DEFAULT_TAGS, mergeTags } from "./youtube-metadata";
+
+export interface YouTubeOptions {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  privacy?: "private" | "unlisted" | "public"; // Default: public
+  playlistId?: string; // Every montage (not Shorts) is added to it
+  tags?: string[]; // Added to the default and generated tags
+  thumbnail?: boolean; // Custom thumbnail from the best highlight (default on)
+  aiMetadata?: boolean; // Generated description and tags (default on)
+  schedule?: PublishSchedule; // Publish at the next free slot instead of now
+  chunkSizeMb?: number; // Resumable upload chunk size (default 8)
+  // Point these at a local stand-in to test uploads
+  apiBaseUrl?: string;
+  tokenUrl?: string;
 }
 
-async function loadConfig(): Promise<Config> {
-  const configContent = await readFile("./config.json", "utf-8");
-  return JSON.parse(configContent);
+export interface UploadOptions {
+  short?: boolean; // Publish as a YouTube Short (vertical, <= 60s)
+  tags?: string[];
+  publishAt?: string; // ISO date; uploaded private until then
+  thumbnailPath?: string;
+  // Resumes an interrupted upload; onSession persists its progress
+  session?: ResumableSession;
+  onSession?: (session: ResumableSession) => void;
 }
 
+const DEFAULT_API_BASE_URL = "https://www.googleapis.com";
+const DEFAULT_CHUNK_SIZE_MB = 8;
+
 export async function uploadVideo(
   filePath: string,
   title: string,
-  description: string
+  description: string,
+  config: YouTubeOptions,
+  options: UploadOptions = {}
 ): Promise<string> {
-  const config = await loadConfig();
-  const { clientId, clientSecret, refreshToken } = config.youtube;
+  const { clientId, clientSecret, refreshToken } = config;
 
   if (!clientId || !clientSecret || !refreshToken) {
-    throw new Error("YouTube credentials missing in config.json");
+    throw new Error("YouTube credentials missing (config.json or YOUTUBE_* environment variables)");
   }
 
-  const oauth2Client = new google.auth.OAuth2(
+  const apiBaseUrl = (config.apiBaseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+
+  const oauth2Client = new google.auth.OAuth2({
     clientId,
     clientSecret,
-    "http://localhost" // Redirect URI, not used for refresh token flow but required
-  );
+    redirectUri: "http://localhost", // Redirect URI, not used for refresh token flow but required
+    endpoints: config.tokenUrl ? { oauth2TokenUrl: config.tokenUrl } : undefined
+  });
 
   oauth2Client.setCredentials({
     refresh_token: refreshToken
@@ -39,30 +61,79 @@ export async function uploadVideo(
 
   const youtube = google.youtube({
     version: "v3",
-    auth: oauth2Client
+    auth: oauth2Client,
+    rootUrl: `${apiBaseUrl}/`
   });
 
+  if (options.short) {
+    // The hashtag is what files the video under Shorts
+    title = `${title.slice(0, 100 - " #Shorts".length)} #Shorts`;
+    description = `${description}\n\n#Shorts`;
+  }
+
   console.log(`Starting upload for: ${title}`);
 
-  const res = await youtube.videos.insert({
-    part: ["snippet", "status"],
-    requestBody: {
+  // Chunked, resumable upload: a restart continues from the last chunk the
+  // server acknowledged instead of sending the whole file again
+  const video = await resumableUpload(filePath, {
+    initUrl: `${apiBaseUrl}/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status`,
+    accessToken: async () => (await oauth2Client.getAccessToken()).token ?? "",
+    contentType: "video/*",
+    chunkSize: (config.chunkSizeMb ?? DEFAULT_CHUNK_SIZE_MB) * 1024 * 1024,
+    session: options.session,
+    onSession: options.onSession,
+    metadata: {
       snippet: {
         title: title,
         description: description,
-        tags: ["Valorant", "Gaming", "Highlights", "Montage"],
+        tags: mergeTags(DEFAULT_TAGS, config.tags ?? [], options.tags ?? []),
         categoryId: "20" // Gaming category
       },
       status: {
-        privacyStatus: "public", // Publish immediately
+        // Scheduled videos must stay private until publishAt
+        privacyStatus: options.publishAt ? "private" : config.privacy ?? "public",
+        publishAt: options.publishAt,
         selfDeclaredMadeForKids: false
       }
-    },
-    media: {
-      body: createReadStream(filePath)
     }
   });
 
-  console.log(`Upload complete! Video ID: ${res.data.id}`);
-  return res.data.id || "";
+  const videoId: string = video.id || "";
+  console.log(`Upload complete! Video ID: ${videoId}`);
+
+  // The video is up at this point: extras failing must not fail the upload
+  // (a retry would upload it twice)
+  if (options.thumbnailPath && !options.short) {
+    try {
+      await youtube.thumbnails.set({
+        videoId,
+        media: {
+          mimeType: "image/jpeg",
+          body: createReadStream(options.thumbnailPath)
+        }
+      });
+      console.log(`Thumbnail set for ${videoId}`);
+    } catch (error: any) {
+      console.warn(`Could not set thumbnail: ${error.message}`);
+    }
+  }
+
+  if (config.playlistId && !options.short) {
+    try {
+      await youtube.playlistItems.insert({
+        part: ["snippet"],
+        requestBody: {
+          snippet: {
+            playlistId: config.playlistId,
+            resourceId: { kind: "youtube#video", videoId }
+          }
+        }
+      });
+      console.log(`Added ${videoId} to playlist ${config.playlistId}`);
+    } catch (error: any) {
+      console.warn(`Could not add to playlist: ${error.message}`);
+    }
+  }
+
+  return videoId;
 }